@@ -0,0 +1,177 @@
+/**
+ * Row Alignment Module
+ * Aligns the rows of two screenshots like a line diff, to tell shifted content from changed content
+ */
+
+import { PNG } from 'pngjs';
+import { DiffBand } from './types';
+
+/**
+ * Bands closer than this many matched rows are merged (a blank row inside a changed block
+ * would otherwise split it)
+ */
+const MERGE_GAP = 8;
+
+/**
+ * Recursion limit of the row matching; deeper ranges are left unmatched
+ */
+const MAX_DEPTH = 1000;
+
+/**
+ * Hash every row of an image (FNV-1a over its RGBA bytes)
+ */
+function hashRows(png: PNG, height: number): number[] {
+  const rowBytes = png.width * 4;
+  const hashes: number[] = [];
+
+  for (let y = 0; y < height; y++) {
+    let hash = 0x811c9dc5;
+    for (let i = y * rowBytes; i < (y + 1) * rowBytes; i++) {
+      hash = Math.imul(hash ^ png.data[i], 0x01000193);
+    }
+    hashes.push(hash >>> 0);
+  }
+
+  return hashes;
+}
+
+/**
+ * Longest increasing subsequence of candidate pairs by their after row (patience sorting)
+ */
+function longestIncreasing(pairs: [number, number][]): [number, number][] {
+  const tails: number[] = [];
+  const previous: number[] = [];
+
+  pairs.forEach(([, afterRow], index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (pairs[tails[mid]][1] < afterRow) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const result: [number, number][] = [];
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index !== -1; index = previous[index]) {
+    result.unshift(pairs[index]);
+  }
+  return result;
+}
+
+/**
+ * Match equal rows of two images (patience diff)
+ * Common leading and trailing rows are matched first; the rest is split at rows that occur
+ * exactly once on both sides, in order, and matched recursively.
+ * @returns Matched [before row, after row] pairs in order
+ */
+export function matchRows(before: PNG, beforeHeight: number, after: PNG, afterHeight: number): [number, number][] {
+  const beforeHashes = hashRows(before, beforeHeight);
+  const afterHashes = hashRows(after, afterHeight);
+  const rowBytes = before.width * 4;
+  const equal = (beforeRow: number, afterRow: number): boolean =>
+    beforeHashes[beforeRow] === afterHashes[afterRow] &&
+    before.data.compare(after.data, afterRow * rowBytes, (afterRow + 1) * rowBytes, beforeRow * rowBytes, (beforeRow + 1) * rowBytes) === 0;
+
+  const matches: [number, number][] = [];
+
+  const match = (beforeStart: number, beforeEnd: number, afterStart: number, afterEnd: number, depth: number = 0): void => {
+    while (beforeStart < beforeEnd && afterStart < afterEnd && equal(beforeStart, afterStart)) {
+      matches.push([beforeStart++, afterStart++]);
+    }
+
+    const trailing: [number, number][] = [];
+    while (beforeEnd > beforeStart && afterEnd > afterStart && equal(beforeEnd - 1, afterEnd - 1)) {
+      trailing.unshift([--beforeEnd, --afterEnd]);
+    }
+
+    if (beforeStart < beforeEnd && afterStart < afterEnd && depth < MAX_DEPTH) {
+      // Rows unique on both sides anchor the alignment
+      const counts = new Map<number, { before: number; after: number; beforeRow: number; afterRow: number }>();
+      for (let row = beforeStart; row < beforeEnd; row++) {
+        const entry = counts.get(beforeHashes[row]) ?? { before: 0, after: 0, beforeRow: row, afterRow: -1 };
+        entry.before++;
+        counts.set(beforeHashes[row], entry);
+      }
+      for (let row = afterStart; row < afterEnd; row++) {
+        const entry = counts.get(afterHashes[row]);
+        if (entry) {
+          entry.after++;
+          entry.afterRow = row;
+        }
+      }
+
+      const candidates: [number, number][] = [];
+      for (const entry of counts.values()) {
+        if (entry.before === 1 && entry.after === 1 && equal(entry.beforeRow, entry.afterRow)) {
+          candidates.push([entry.beforeRow, entry.afterRow]);
+        }
+      }
+      candidates.sort((a, b) => a[0] - b[0]);
+
+      let beforeRow = beforeStart;
+      let afterRow = afterStart;
+      for (const [beforeAnchor, afterAnchor] of longestIncreasing(candidates)) {
+        match(beforeRow, beforeAnchor, afterRow, afterAnchor, depth + 1);
+        matches.push([beforeAnchor, afterAnchor]);
+        beforeRow = beforeAnchor + 1;
+        afterRow = afterAnchor + 1;
+      }
+      if (beforeRow > beforeStart) {
+        match(beforeRow, beforeEnd, afterRow, afterEnd, depth + 1);
+      }
+    }
+
+    matches.push(...trailing);
+  };
+
+  match(0, beforeHeight, 0, afterHeight);
+  return matches;
+}
+
+/**
+ * Turn the unmatched rows between matches into inserted, removed and modified bands
+ * (diffPixels is left at 0 for the caller to count)
+ */
+export function findBands(matches: [number, number][], beforeHeight: number, afterHeight: number): DiffBand[] {
+  const bands: DiffBand[] = [];
+  let beforeRow = 0;
+  let afterRow = 0;
+
+  for (const [beforeMatch, afterMatch] of [...matches, [beforeHeight, afterHeight] as [number, number]]) {
+    const beforeGap = beforeMatch - beforeRow;
+    const afterGap = afterMatch - afterRow;
+
+    if (beforeGap > 0 || afterGap > 0) {
+      const band: DiffBand = {
+        kind: beforeGap > 0 && afterGap > 0 ? 'modified' : afterGap > 0 ? 'inserted' : 'removed',
+        beforeY: beforeRow,
+        beforeHeight: beforeGap,
+        afterY: afterRow,
+        afterHeight: afterGap,
+        diffPixels: 0,
+      };
+      const last = bands[bands.length - 1];
+
+      if (last && beforeRow - (last.beforeY + last.beforeHeight) < MERGE_GAP &&
+          afterRow - (last.afterY + last.afterHeight) < MERGE_GAP) {
+        // The matched rows in between become part of one modified band
+        last.kind = 'modified';
+        last.beforeHeight = beforeMatch - last.beforeY;
+        last.afterHeight = afterMatch - last.afterY;
+      } else {
+        bands.push(band);
+      }
+    }
+
+    beforeRow = beforeMatch + 1;
+    afterRow = afterMatch + 1;
+  }
+
+  return bands;
+}
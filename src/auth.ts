@@ -0,0 +1,67 @@
+/**
+ * Auth Module
+ * Logs in via wp-login.php so captures show the logged-in view
+ */
+
+import { Browser } from 'playwright';
+import { AuthConfig, HttpCredentials, StorageState } from './types';
+import { normalizeUrl } from './wordpress-api';
+
+/**
+ * Credentials for the wp-login.php form
+ */
+export interface WordPressLogin {
+  url: string;
+  username: string;
+  password: string;
+}
+
+/**
+ * Resolve the wp-login.php login (undefined unless a user name and account password are set)
+ */
+export function resolveLogin(siteUrl: string, auth: AuthConfig | undefined): WordPressLogin | undefined {
+  if (!auth?.username || !auth.password) {
+    return undefined;
+  }
+  return {
+    url: auth.loginUrl ?? `${normalizeUrl(siteUrl)}/wp-login.php`,
+    username: auth.username,
+    password: auth.password,
+  };
+}
+
+/**
+ * Log in through the login form and return the session
+ * The session is engine independent, so one login serves every browser and context.
+ * @param storageState - State to start from (e.g. cookie consent), kept in the returned session
+ */
+export async function loginToWordPress(
+  browser: Browser,
+  login: WordPressLogin,
+  httpCredentials?: HttpCredentials,
+  storageState?: StorageState
+): Promise<StorageState> {
+  const context = await browser.newContext({ httpCredentials, storageState });
+
+  try {
+    const page = await context.newPage();
+    await page.goto(login.url, { waitUntil: 'domcontentloaded', timeout: 60000 });
+
+    await page.fill('#user_login', login.username);
+    await page.fill('#user_pass', login.password);
+    await Promise.all([
+      page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout: 60000 }),
+      page.click('#wp-submit'),
+    ]);
+
+    const cookies = await context.cookies();
+    if (!cookies.some(cookie => cookie.name.startsWith('wordpress_logged_in_'))) {
+      const message = await page.locator('#login_error').textContent().catch(() => null);
+      throw new Error(`Login as ${login.username} failed${message ? `: ${message.trim()}` : ''}`);
+    }
+
+    return await context.storageState();
+  } finally {
+    await context.close();
+  }
+}
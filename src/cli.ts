@@ -0,0 +1,794 @@
+/**
+ * CLI Argument Module
+ * Parses command-line flags and validates user-supplied configuration
+ */
+
+import { parseArgs } from 'util';
+import {
+  PixelPoliceConfig,
+  CookieConfig,
+  DiffStatus,
+  MaskTargets,
+  ThresholdLimits,
+  VIEWPORTS,
+  BROWSER_ENGINES,
+  BrowserEngine,
+  SAMPLING_STRATEGIES,
+  SamplingConfig,
+  SamplingStrategy,
+  URL_SOURCES,
+  UrlSource,
+  POST_STATUSES,
+  PostStatus,
+  AuthConfig,
+  HttpCredentials,
+  ConsentAction,
+  CONSENT_ACTIONS,
+  InteractionStep,
+  INTERACTION_ACTIONS,
+  DiffMode,
+  DIFF_MODES,
+} from './types';
+import { validateUrlPattern } from './patterns';
+import { validateExtraUrl } from './extra-urls';
+
+/**
+ * Subcommands
+ * - run: full interactive before/update/after flow (default)
+ * - before/after/compare: single phases, resumable via run.json
+ * - report: regenerate report.html from run.json
+ */
+export type CliCommand = 'run' | 'before' | 'after' | 'compare' | 'report';
+
+const COMMANDS: CliCommand[] = ['run', 'before', 'after', 'compare', 'report'];
+
+/**
+ * Parsed command-line arguments
+ */
+export interface CliArgs {
+  /** Subcommand to run */
+  command: CliCommand;
+  /** Existing project folder (for after/compare/report) */
+  projectFolder?: string;
+  /** Config values given as flags (only keys that were set) */
+  config: PixelPoliceConfig;
+  /** Explicit config file path (--config) */
+  configPath?: string;
+  /** Never prompt; fail on missing required values instead */
+  nonInteractive: boolean;
+  /** Show usage and exit */
+  help: boolean;
+}
+
+const COOKIE_MODES: CookieConfig['mode'][] = ['auto', 'custom', 'none'];
+const DIFF_STATUSES: DiffStatus[] = ['pass', 'warn', 'fail'];
+
+export const USAGE = `
+Usage: pixelpolice [command] [options]
+
+Commands:
+  run                          Full flow: before, wait for update, after, compare (default)
+  before                       Discover URLs and take BEFORE screenshots, then exit
+  after                        Take AFTER screenshots for an existing project
+  compare                      Generate diffs and the final report for an existing project
+  report                       Regenerate report.html from a project's run.json
+
+Options:
+  -u, --url <url>              WordPress site URL
+  -t, --post-types <slugs>     Comma-separated post type and page group slugs
+                               (e.g. page,post,category,search,404; default: all)
+  -n, --posts-per-type <n>     Posts per post type (default: 5)
+      --sampling <list>        Sampling strategy, optionally per post type, e.g.
+                               "random" or "recent,product=all" (strategies:
+                               ${SAMPLING_STRATEGIES.join(', ')}; default: random)
+      --seed <n>               Seed for random sampling (printed by every run)
+      --sources <list>         URL sources: rest, sitemap or both (default: rest,
+                               sitemaps only if the REST API is blocked)
+      --sitemap <url>          Sitemap to read instead of discovering one
+      --extra-url <url>        Extra URL or path to capture (repeatable)
+      --url-file <path>        Extra URLs from a .txt, .csv or .json file
+      --exclude <pattern>      Skip discovered URLs matching a glob or regex:...
+                               pattern (repeatable)
+      --multisite              Capture every site of a multisite network
+      --sites <urls>           Comma-separated subsite URLs (implies --multisite;
+                               default: /wp/v2/sites, else the network sitemap)
+      --languages <list>       Languages to capture on WPML/Polylang sites, e.g. en,de
+                               (default: all detected)
+      --no-languages           Don't detect languages or add translations
+      --auth-user <name>       WordPress user for --app-password and --login-password
+      --app-password <pw>      Application Password for REST API requests
+      --post-status <list>     Post statuses to fetch with --app-password and
+                               --login-password, e.g. publish,private,draft
+                               (default: publish)
+      --login-password <pw>    Log in via wp-login.php and capture the logged-in view
+      --login-url <url>        Login page (default: <site>/wp-login.php)
+      --http-auth <user:pw>    HTTP Basic auth for password-protected staging sites
+      --cookie-mode <mode>     Cookie banner handling: auto, custom or none
+      --cookie-text <text>     Button text to click (implies --cookie-mode custom)
+      --cookie-action <action> Consent to give: accept or reject (default: accept)
+      --viewports <list>       Comma-separated viewport presets: ${Object.keys(VIEWPORTS).join(', ')}
+      --browsers <list>        Comma-separated browser engines: ${BROWSER_ENGINES.join(', ')} (default: chromium)
+  -o, --output <folder>        Base output folder (default: output)
+      --open / --no-open       Open the report in the browser when done
+      --concurrency <n>        URLs captured in parallel (default: 1)
+      --parallel-viewports     Capture all viewports of a URL at the same time
+      --max-rps <n>            Maximum requests per second to the WordPress host
+      --retries <n>            Retries for a failed capture (default: 1)
+      --retry-delay <ms>       Delay before the first retry, doubled each time (default: 2000)
+      --mask <selector>        CSS selector to mask before capture (repeatable)
+      --component <name=selector>
+                               Component captured and compared on its own,
+                               e.g. footer=.site-footer (repeatable)
+      --stabilize / --no-stabilize
+                               Deterministic rendering: freeze time, randomness,
+                               animations and media before capture
+      --noise-baseline         Capture each URL twice in the before phase and
+                               ignore pixels that differ between the two
+      --warn-threshold <pct>   Warn when more than this % of pixels changed
+      --fail-threshold <pct>   Fail when more than this % of pixels changed
+      --fail-on-dimension-change
+                               Fail when page dimensions changed
+      --diff-mode <mode>       pixel, or shift to align rows so content moved by
+                               inserted or removed blocks isn't counted as changed
+  -p, --project <folder>       Project folder for after/compare/report
+  -c, --config <file>          Config file (default: pixelpolice.config.ts/.json)
+      --non-interactive        Never prompt; fail if a required value is missing
+  -h, --help                   Show this help
+
+Any value not given as a flag or in the config file is asked for interactively.
+
+Exit codes: 0 = no failures, 1 = error, 2 = at least one page failed its thresholds.
+`;
+
+/**
+ * Validate a site URL (same rules as the interactive prompt)
+ */
+export function validateSiteUrl(value: string): true | string {
+  if (!value.trim()) return 'Please enter a URL';
+  try {
+    new URL(value.startsWith('http') ? value : `https://${value}`);
+    return true;
+  } catch {
+    return 'Please enter a valid URL';
+  }
+}
+
+/**
+ * Validate custom cookie button text (same rules as the interactive prompt)
+ */
+export function validateCookieText(value: string): true | string {
+  return value.trim() ? true : 'Please enter the text';
+}
+
+/**
+ * Validate posts per type
+ */
+export function validatePostsPerType(value: number): true | string {
+  return Number.isInteger(value) && value > 0 ? true : 'Please enter a positive whole number';
+}
+
+/**
+ * Split a comma-separated flag value into trimmed, non-empty items
+ */
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Parse a --sampling value: a default strategy and/or postType=strategy pairs
+ */
+function parseSampling(value: string): SamplingConfig {
+  const sampling: SamplingConfig = {};
+  for (const item of splitList(value)) {
+    const [postType, strategy] = item.includes('=') ? item.split('=', 2) : [undefined, item];
+    if (postType === undefined) {
+      sampling.strategy = strategy as SamplingStrategy;
+    } else {
+      sampling.postTypes = { ...sampling.postTypes, [postType.trim()]: strategy.trim() as SamplingStrategy };
+    }
+  }
+  return sampling;
+}
+
+/**
+ * Parse a user:password value (the password may contain colons)
+ */
+function parseCredentials(value: string): HttpCredentials {
+  const separator = value.indexOf(':');
+  return separator === -1
+    ? { username: value, password: '' }
+    : { username: value.slice(0, separator), password: value.slice(separator + 1) };
+}
+
+/**
+ * Parse command-line arguments into a partial config
+ */
+export function parseCliArgs(argv: string[] = process.argv.slice(2)): CliArgs {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      url: { type: 'string', short: 'u' },
+      'post-types': { type: 'string', short: 't' },
+      'posts-per-type': { type: 'string', short: 'n' },
+      sampling: { type: 'string' },
+      seed: { type: 'string' },
+      sources: { type: 'string' },
+      sitemap: { type: 'string' },
+      'extra-url': { type: 'string', multiple: true },
+      'url-file': { type: 'string' },
+      exclude: { type: 'string', multiple: true },
+      multisite: { type: 'boolean' },
+      sites: { type: 'string' },
+      languages: { type: 'string' },
+      'no-languages': { type: 'boolean' },
+      'auth-user': { type: 'string' },
+      'app-password': { type: 'string' },
+      'post-status': { type: 'string' },
+      'login-password': { type: 'string' },
+      'login-url': { type: 'string' },
+      'http-auth': { type: 'string' },
+      'cookie-mode': { type: 'string' },
+      'cookie-text': { type: 'string' },
+      'cookie-action': { type: 'string' },
+      viewports: { type: 'string' },
+      browsers: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      open: { type: 'boolean' },
+      'no-open': { type: 'boolean' },
+      concurrency: { type: 'string' },
+      'parallel-viewports': { type: 'boolean' },
+      'max-rps': { type: 'string' },
+      retries: { type: 'string' },
+      'retry-delay': { type: 'string' },
+      mask: { type: 'string', multiple: true },
+      component: { type: 'string', multiple: true },
+      stabilize: { type: 'boolean' },
+      'no-stabilize': { type: 'boolean' },
+      'noise-baseline': { type: 'boolean' },
+      'warn-threshold': { type: 'string' },
+      'fail-threshold': { type: 'string' },
+      'fail-on-dimension-change': { type: 'boolean' },
+      'diff-mode': { type: 'string' },
+      project: { type: 'string', short: 'p' },
+      config: { type: 'string', short: 'c' },
+      'non-interactive': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+    strict: true,
+    allowPositionals: true,
+  });
+
+  if (positionals.length > 1) {
+    throw new Error(`Unexpected arguments: ${positionals.slice(1).join(' ')}`);
+  }
+
+  const command = (positionals[0] ?? 'run') as CliCommand;
+  if (!COMMANDS.includes(command)) {
+    throw new Error(`Unknown command "${command}". Expected one of: ${COMMANDS.join(', ')}`);
+  }
+
+  const config: PixelPoliceConfig = {};
+
+  if (values.url !== undefined) config.siteUrl = values.url;
+  if (values['post-types'] !== undefined) config.postTypes = splitList(values['post-types']);
+  if (values['posts-per-type'] !== undefined) config.postsPerType = Number(values['posts-per-type']);
+  if (values.sampling !== undefined || values.seed !== undefined) {
+    config.sampling = values.sampling !== undefined ? parseSampling(values.sampling) : {};
+    if (values.seed !== undefined) config.sampling.seed = Number(values.seed);
+  }
+  if (values.sources !== undefined) config.urlSources = splitList(values.sources) as UrlSource[];
+  if (values.sitemap !== undefined) config.sitemapUrl = values.sitemap;
+  if (values['extra-url'] !== undefined) config.extraUrls = values['extra-url'];
+  if (values['url-file'] !== undefined) config.extraUrlFile = values['url-file'];
+  if (values.exclude !== undefined) config.exclude = values.exclude;
+  if (values.sites !== undefined) config.multisite = { sites: splitList(values.sites) };
+  else if (values.multisite) config.multisite = true;
+  if (values.languages !== undefined) config.languages = splitList(values.languages);
+  if (values['no-languages']) config.languages = false;
+
+  const auth: AuthConfig = {
+    username: values['auth-user'],
+    applicationPassword: values['app-password'],
+    statuses: values['post-status'] !== undefined ? splitList(values['post-status']) as PostStatus[] : undefined,
+    password: values['login-password'],
+    loginUrl: values['login-url'],
+    httpBasic: values['http-auth'] !== undefined ? parseCredentials(values['http-auth']) : undefined,
+  };
+  if (Object.values(auth).some(value => value !== undefined)) config.auth = auth;
+  if (values.viewports !== undefined) config.viewports = splitList(values.viewports);
+  if (values.browsers !== undefined) config.browsers = splitList(values.browsers) as BrowserEngine[];
+  if (values.output !== undefined) config.outputFolder = values.output;
+  if (values.open) config.openReport = true;
+  if (values['no-open']) config.openReport = false;
+
+  if (values['cookie-mode'] !== undefined || values['cookie-text'] !== undefined) {
+    config.cookie = {
+      mode: (values['cookie-mode'] ?? 'custom') as CookieConfig['mode'],
+      customText: values['cookie-text'],
+    };
+  }
+  if (values['cookie-action'] !== undefined) {
+    // Without a mode the config file's (or auto) applies
+    config.cookie = { ...config.cookie, action: values['cookie-action'] as ConsentAction } as CookieConfig;
+  }
+
+  if (values.concurrency !== undefined) config.concurrency = Number(values.concurrency);
+  if (values['parallel-viewports']) config.parallelViewports = true;
+  if (values['max-rps'] !== undefined) config.maxRequestsPerSecond = Number(values['max-rps']);
+  if (values.retries !== undefined) config.retries = Number(values.retries);
+  if (values['retry-delay'] !== undefined) config.retryDelayMs = Number(values['retry-delay']);
+  if (values.mask !== undefined) config.mask = { selectors: values.mask };
+  if (values.component !== undefined) {
+    config.components = Object.fromEntries(values.component.map(entry => {
+      const separator = entry.indexOf('=');
+      return separator === -1 ? [entry, ''] : [entry.slice(0, separator).trim(), entry.slice(separator + 1).trim()];
+    }));
+  }
+  // An empty object keeps time/seed from the config file when merged
+  if (values.stabilize) config.stabilize = {};
+  if (values['no-stabilize']) config.stabilize = false;
+  if (values['noise-baseline']) config.noiseBaseline = true;
+
+  if (
+    values['warn-threshold'] !== undefined ||
+    values['fail-threshold'] !== undefined ||
+    values['fail-on-dimension-change']
+  ) {
+    config.thresholds = {};
+    if (values['warn-threshold'] !== undefined) config.thresholds.warnPercentage = Number(values['warn-threshold']);
+    if (values['fail-threshold'] !== undefined) config.thresholds.failPercentage = Number(values['fail-threshold']);
+    if (values['fail-on-dimension-change']) config.thresholds.dimensionChange = 'fail';
+  }
+  if (values['diff-mode'] !== undefined) config.diffMode = values['diff-mode'] as DiffMode;
+
+  return {
+    command,
+    projectFolder: values.project,
+    config,
+    configPath: values.config,
+    nonInteractive: values['non-interactive'] ?? false,
+    help: values.help ?? false,
+  };
+}
+
+/**
+ * Check for a plain (non-array) object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge configs; later sources override earlier ones key by key
+ * Nested objects (cookie, thresholds) are merged one level deep.
+ */
+export function mergeConfigs(...configs: PixelPoliceConfig[]): PixelPoliceConfig {
+  const merged: Record<string, unknown> = {};
+  for (const config of configs) {
+    for (const [key, value] of Object.entries(config)) {
+      if (value === undefined) {
+        continue;
+      }
+      const existing = merged[key];
+      if (isPlainObject(existing) && isPlainObject(value)) {
+        const nested = { ...existing };
+        for (const [nestedKey, nestedValue] of Object.entries(value)) {
+          if (nestedValue !== undefined) nested[nestedKey] = nestedValue;
+        }
+        merged[key] = nested;
+      } else {
+        merged[key] = value;
+      }
+    }
+  }
+  return merged as PixelPoliceConfig;
+}
+
+/**
+ * Validate threshold limits (defaults or one rule)
+ */
+function validateThresholdLimits(
+  limits: ThresholdLimits,
+  field: string,
+  fail: (field: string, message: string) => never
+): void {
+  for (const key of ['warnPercentage', 'failPercentage'] as const) {
+    const value = limits[key];
+    if (value !== undefined && (typeof value !== 'number' || Number.isNaN(value) || value < 0 || value > 100)) {
+      fail(`${field}.${key}`, 'Please enter a percentage between 0 and 100');
+    }
+  }
+  for (const key of ['warnPixels', 'failPixels'] as const) {
+    const value = limits[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      fail(`${field}.${key}`, 'Please enter a non-negative whole number');
+    }
+  }
+  for (const key of ['dimensionChange', 'captureFailure'] as const) {
+    const value = limits[key];
+    if (value !== undefined && !DIFF_STATUSES.includes(value)) {
+      fail(`${field}.${key}`, `Expected one of: ${DIFF_STATUSES.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Validate mask selectors and ignore regions (site-wide or one rule)
+ */
+function validateMaskTargets(
+  targets: MaskTargets,
+  field: string,
+  viewportNames: string[],
+  fail: (field: string, message: string) => never
+): void {
+  if (targets.selectors !== undefined &&
+      (!Array.isArray(targets.selectors) || targets.selectors.some(selector => typeof selector !== 'string'))) {
+    fail(`${field}.selectors`, 'Expected a list of CSS selectors');
+  }
+
+  if (targets.regions !== undefined && !Array.isArray(targets.regions)) {
+    fail(`${field}.regions`, 'Expected a list of regions');
+  }
+
+  (targets.regions ?? []).forEach((region, index) => {
+    if (!isPlainObject(region)) {
+      fail(`${field}.regions[${index}]`, 'Expected x, y, width and height in pixels');
+    }
+    const values = [region.x, region.y, region.width, region.height];
+    if (values.some(value => typeof value !== 'number' || Number.isNaN(value)) || region.width <= 0 || region.height <= 0) {
+      fail(`${field}.regions[${index}]`, 'Expected x, y, width and height in pixels');
+    }
+    if (region.viewport !== undefined && !viewportNames.includes(region.viewport)) {
+      fail(`${field}.regions[${index}].viewport`, `Unknown viewport "${region.viewport}"`);
+    }
+  });
+}
+
+/**
+ * Validate one interaction step
+ */
+function validateInteractionStep(
+  step: InteractionStep,
+  field: string,
+  fail: (field: string, message: string) => never
+): void {
+  if (!isPlainObject(step) || !INTERACTION_ACTIONS.includes(step.action)) {
+    fail(`${field}.action`, `Expected one of: ${INTERACTION_ACTIONS.join(', ')}`);
+  }
+  if (step.selector !== undefined && (typeof step.selector !== 'string' || step.selector.trim() === '')) {
+    fail(`${field}.selector`, 'Please enter a CSS selector');
+  }
+  if (step.selector === undefined && ['click', 'hover', 'fill', 'waitFor', 'scrollTo'].includes(step.action)) {
+    fail(`${field}.selector`, `A selector is required for ${step.action}`);
+  }
+  if (step.value !== undefined && typeof step.value !== 'string') {
+    fail(`${field}.value`, 'Expected a string');
+  }
+  if (step.value === undefined && ['fill', 'press', 'evaluate'].includes(step.action)) {
+    const expected = { fill: 'the text to enter', press: 'a key, e.g. "Escape"', evaluate: 'the JavaScript to run' };
+    fail(`${field}.value`, `Expected ${expected[step.action as keyof typeof expected]}`);
+  }
+  if (step.screenshot !== undefined &&
+      (typeof step.screenshot !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/i.test(step.screenshot))) {
+    fail(`${field}.screenshot`, 'Use letters, digits, - and _ only (e.g. "menu-open")');
+  }
+}
+
+/**
+ * Validate a config, throwing on the first invalid value
+ */
+export function validateConfig(config: PixelPoliceConfig): void {
+  const fail = (field: string, message: string): never => {
+    throw new Error(`Invalid ${field}: ${message}`);
+  };
+
+  if (config.siteUrl !== undefined) {
+    const result = validateSiteUrl(config.siteUrl);
+    if (result !== true) fail('siteUrl', result);
+  }
+
+  if (config.postsPerType !== undefined) {
+    const result = validatePostsPerType(config.postsPerType);
+    if (result !== true) fail('postsPerType', result);
+  }
+
+  if (config.concurrency !== undefined && (!Number.isInteger(config.concurrency) || config.concurrency < 1)) {
+    fail('concurrency', 'Please enter a positive whole number');
+  }
+
+  if (config.retries !== undefined && (!Number.isInteger(config.retries) || config.retries < 0)) {
+    fail('retries', 'Please enter a non-negative whole number');
+  }
+
+  if (config.retryDelayMs !== undefined && (!Number.isInteger(config.retryDelayMs) || config.retryDelayMs < 0)) {
+    fail('retryDelayMs', 'Please enter a non-negative whole number');
+  }
+
+  if (config.maxRequestsPerSecond !== undefined &&
+      (typeof config.maxRequestsPerSecond !== 'number' || !(config.maxRequestsPerSecond > 0))) {
+    fail('maxRequestsPerSecond', 'Please enter a number greater than 0');
+  }
+
+  if (config.postTypes !== undefined && !Array.isArray(config.postTypes)) {
+    fail('postTypes', 'Expected a list of post type slugs');
+  }
+
+  if (config.cookie !== undefined) {
+    if (config.cookie.mode !== undefined && !COOKIE_MODES.includes(config.cookie.mode)) {
+      fail('cookie.mode', `Expected one of: ${COOKIE_MODES.join(', ')}`);
+    }
+    if (config.cookie.action !== undefined && !CONSENT_ACTIONS.includes(config.cookie.action)) {
+      fail('cookie.action', `Expected one of: ${CONSENT_ACTIONS.join(', ')}`);
+    }
+    if (config.cookie.mode === 'custom' && config.cookie.customText !== undefined) {
+      const result = validateCookieText(config.cookie.customText);
+      if (result !== true) fail('cookie.customText', result);
+    }
+  }
+
+  // Names usable in rules and regions: presets plus custom viewports
+  const viewportNames = Object.keys(VIEWPORTS);
+
+  if (config.viewports !== undefined) {
+    if (!Array.isArray(config.viewports) || config.viewports.length === 0) {
+      fail('viewports', 'Please select at least one viewport');
+    }
+
+    const seen = new Set<string>();
+    config.viewports.forEach((viewport, index) => {
+      const field = `viewports[${index}]`;
+
+      if (typeof viewport === 'string') {
+        if (!(viewport in VIEWPORTS)) {
+          fail('viewports', `Unknown viewport "${viewport}". Expected one of: ${Object.keys(VIEWPORTS).join(', ')}`);
+        }
+      } else {
+        if (typeof viewport.name !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/i.test(viewport.name)) {
+          fail(`${field}.name`, 'Use letters, numbers, "-" and "_" only');
+        }
+        const preset = VIEWPORTS[viewport.name];
+        for (const key of ['width', 'height'] as const) {
+          const value = viewport[key] ?? preset?.[key];
+          if (!Number.isInteger(value) || (value as number) <= 0) {
+            fail(`${field}.${key}`, 'Please enter a positive whole number of pixels');
+          }
+        }
+        if (viewport.deviceScaleFactor !== undefined && !(viewport.deviceScaleFactor > 0)) {
+          fail(`${field}.deviceScaleFactor`, 'Please enter a number greater than 0');
+        }
+        viewportNames.push(viewport.name);
+      }
+
+      const name = typeof viewport === 'string' ? viewport : viewport.name;
+      if (seen.has(name)) {
+        fail('viewports', `Duplicate viewport "${name}"`);
+      }
+      seen.add(name);
+    });
+  }
+
+  if (config.sampling !== undefined) {
+    const { strategy, seed, postTypes = {} } = config.sampling;
+    const checkStrategy = (field: string, value: string) => {
+      if (!SAMPLING_STRATEGIES.includes(value as SamplingStrategy)) {
+        fail(field, `Unknown sampling strategy "${value}". Expected one of: ${SAMPLING_STRATEGIES.join(', ')}`);
+      }
+    };
+    if (strategy !== undefined) checkStrategy('sampling.strategy', strategy);
+    for (const [postType, value] of Object.entries(postTypes)) {
+      checkStrategy(`sampling.postTypes.${postType}`, value);
+    }
+    if (seed !== undefined && (!Number.isInteger(seed) || seed < 0)) {
+      fail('sampling.seed', 'Please enter a whole number of 0 or more');
+    }
+  }
+
+  if (config.urlSources !== undefined) {
+    if (!Array.isArray(config.urlSources) || config.urlSources.length === 0) {
+      fail('urlSources', 'Please select at least one URL source');
+    }
+    for (const source of config.urlSources) {
+      if (!URL_SOURCES.includes(source)) {
+        fail('urlSources', `Unknown URL source "${source}". Expected one of: ${URL_SOURCES.join(', ')}`);
+      }
+    }
+  }
+
+  if (config.sitemapUrl !== undefined && !/^https?:\/\//.test(config.sitemapUrl)) {
+    fail('sitemapUrl', 'Please enter a full URL starting with http:// or https://');
+  }
+
+  if (config.extraUrls !== undefined) {
+    if (!Array.isArray(config.extraUrls)) {
+      fail('extraUrls', 'Expected a list of URLs');
+    }
+    config.extraUrls.forEach((extra, index) => {
+      const result = validateExtraUrl(extra);
+      if (result !== true) fail(`extraUrls[${index}]`, result);
+    });
+  }
+
+  if (config.extraUrlFile !== undefined && (typeof config.extraUrlFile !== 'string' || config.extraUrlFile.length === 0)) {
+    fail('extraUrlFile', 'Please enter a file path');
+  }
+
+  if (config.exclude !== undefined) {
+    if (!Array.isArray(config.exclude)) {
+      fail('exclude', 'Expected a list of patterns');
+    }
+    config.exclude.forEach((pattern, index) => {
+      const result = typeof pattern === 'string' ? validateUrlPattern(pattern) : 'Expected a pattern string';
+      if (result !== true) fail(`exclude[${index}]`, result);
+    });
+  }
+
+  if (typeof config.multisite === 'object' && config.multisite.sites !== undefined) {
+    if (!Array.isArray(config.multisite.sites) || config.multisite.sites.length === 0) {
+      fail('multisite.sites', 'Please enter at least one site URL');
+    }
+    for (const site of config.multisite.sites) {
+      const result = validateSiteUrl(site);
+      if (result !== true) fail('multisite.sites', `${result} ("${site}")`);
+    }
+  }
+
+  if (config.languages !== undefined && config.languages !== false) {
+    if (!Array.isArray(config.languages) || config.languages.length === 0) {
+      fail('languages', 'Please enter at least one language code or false');
+    }
+    for (const language of config.languages) {
+      if (typeof language !== 'string' || !/^[a-z]{2,3}$/i.test(language)) {
+        fail('languages', `"${language}" is not a language code (e.g. en, de)`);
+      }
+    }
+  }
+
+  if (config.auth !== undefined) {
+    const { username, applicationPassword, password, loginUrl, statuses, httpBasic } = config.auth;
+    if ((applicationPassword !== undefined || password !== undefined) && !username) {
+      fail('auth.username', 'Required for an Application Password or login');
+    }
+    if (statuses !== undefined) {
+      if (!Array.isArray(statuses) || statuses.length === 0) {
+        fail('auth.statuses', 'Please select at least one post status');
+      }
+      for (const status of statuses) {
+        if (!POST_STATUSES.includes(status)) {
+          fail('auth.statuses', `Unknown post status "${status}". Expected one of: ${POST_STATUSES.join(', ')}`);
+        }
+      }
+      // Listing needs the Application Password, rendering needs a logged-in browser
+      if (statuses.some(status => status !== 'publish') && (!applicationPassword || password === undefined)) {
+        fail('auth.statuses', 'Statuses other than publish require auth.applicationPassword and auth.password');
+      }
+    }
+    if (loginUrl !== undefined && !/^https?:\/\//.test(loginUrl)) {
+      fail('auth.loginUrl', 'Please enter a full URL starting with http:// or https://');
+    }
+    if (httpBasic !== undefined && (!httpBasic.username || typeof httpBasic.password !== 'string')) {
+      fail('auth.httpBasic', 'Expected a user name and password ("user:password")');
+    }
+  }
+
+  if (config.browsers !== undefined) {
+    if (!Array.isArray(config.browsers) || config.browsers.length === 0) {
+      fail('browsers', 'Please select at least one browser engine');
+    }
+    for (const browser of config.browsers) {
+      if (!BROWSER_ENGINES.includes(browser)) {
+        fail('browsers', `Unknown browser engine "${browser}". Expected one of: ${BROWSER_ENGINES.join(', ')}`);
+      }
+    }
+    if (new Set(config.browsers).size !== config.browsers.length) {
+      fail('browsers', 'Each browser engine may only be listed once');
+    }
+  }
+
+  if (config.thresholds !== undefined) {
+    validateThresholdLimits(config.thresholds, 'thresholds', fail);
+
+    (config.thresholds.rules ?? []).forEach((rule, index) => {
+      const field = `thresholds.rules[${index}]`;
+      validateThresholdLimits(rule, field, fail);
+      if (rule.viewport !== undefined && !viewportNames.includes(rule.viewport)) {
+        fail(`${field}.viewport`, `Unknown viewport "${rule.viewport}"`);
+      }
+      if (rule.browser !== undefined && !BROWSER_ENGINES.includes(rule.browser)) {
+        fail(`${field}.browser`, `Unknown browser engine "${rule.browser}"`);
+      }
+      if (rule.url !== undefined) {
+        const result = validateUrlPattern(rule.url);
+        if (result !== true) fail(`${field}.url`, result);
+      }
+    });
+  }
+
+  if (config.mask !== undefined) {
+    validateMaskTargets(config.mask, 'mask', viewportNames, fail);
+
+    if (config.mask.strategy !== undefined && !['mask', 'hide'].includes(config.mask.strategy)) {
+      fail('mask.strategy', 'Expected one of: mask, hide');
+    }
+
+    if (config.mask.rules !== undefined && !Array.isArray(config.mask.rules)) {
+      fail('mask.rules', 'Expected a list of rules');
+    }
+
+    (config.mask.rules ?? []).forEach((rule, index) => {
+      const field = `mask.rules[${index}]`;
+      if (!isPlainObject(rule)) {
+        fail(field, 'Expected an object with a URL pattern');
+      }
+      if (typeof rule.url !== 'string') {
+        fail(`${field}.url`, 'Please enter a URL pattern');
+      }
+      const result = validateUrlPattern(rule.url);
+      if (result !== true) fail(`${field}.url`, result);
+      validateMaskTargets(rule, field, viewportNames, fail);
+    });
+  }
+
+  if (config.diffMode !== undefined && !DIFF_MODES.includes(config.diffMode)) {
+    fail('diffMode', `Expected one of: ${DIFF_MODES.join(', ')}`);
+  }
+
+  if (config.components !== undefined) {
+    if (!isPlainObject(config.components)) {
+      fail('components', 'Expected an object of component names and CSS selectors');
+    }
+    for (const [name, selector] of Object.entries(config.components)) {
+      if (!/^[a-z0-9][a-z0-9_-]*$/i.test(name)) {
+        fail('components', `Invalid component name "${name}": use letters, digits, - and _ only (e.g. "footer")`);
+      }
+      if (typeof selector !== 'string' || selector.trim() === '') {
+        fail(`components.${name}`, 'Please enter a CSS selector, e.g. footer=.site-footer');
+      }
+    }
+  }
+
+  if (config.interactions !== undefined) {
+    if (!Array.isArray(config.interactions)) {
+      fail('interactions', 'Expected a list of rules with steps');
+    }
+
+    // Several rules can match one page, so screenshot names are unique across rules
+    const screenshotNames = new Set<string>();
+    config.interactions.forEach((rule, index) => {
+      const field = `interactions[${index}]`;
+      if (!isPlainObject(rule)) {
+        fail(field, 'Expected an object with steps');
+      }
+      if (rule.url !== undefined) {
+        const result = typeof rule.url === 'string' ? validateUrlPattern(rule.url) : 'Please enter a URL pattern';
+        if (result !== true) fail(`${field}.url`, result);
+      }
+      if (rule.postType !== undefined && typeof rule.postType !== 'string') {
+        fail(`${field}.postType`, 'Please enter a post type slug');
+      }
+      if (!Array.isArray(rule.steps) || rule.steps.length === 0) {
+        fail(`${field}.steps`, 'Please add at least one step');
+      }
+      rule.steps.forEach((step, stepIndex) => validateInteractionStep(step, `${field}.steps[${stepIndex}]`, fail));
+
+      for (const step of rule.steps) {
+        if (step.screenshot === undefined) continue;
+        if (screenshotNames.has(step.screenshot)) {
+          fail(`${field}.steps`, `Duplicate screenshot name "${step.screenshot}"`);
+        }
+        screenshotNames.add(step.screenshot);
+      }
+    });
+  }
+
+  if (isPlainObject(config.stabilize)) {
+    const { time, seed } = config.stabilize;
+    if (time !== undefined && (typeof time !== 'string' || Number.isNaN(Date.parse(time)))) {
+      fail('stabilize.time', 'Please enter a date, e.g. "2024-01-01T12:00:00Z"');
+    }
+    if (seed !== undefined && !Number.isInteger(seed)) {
+      fail('stabilize.seed', 'Please enter a whole number');
+    }
+  } else if (config.stabilize !== undefined && typeof config.stabilize !== 'boolean') {
+    fail('stabilize', 'Expected true, false or an object with time and seed');
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Concurrency Module
+ * Worker pool, request rate limiting and ordered console output for parallel capture
+ */
+
+/**
+ * Output sink for one unit of work
+ */
+export interface Logger {
+  /** Write text without a newline */
+  write(text: string): void;
+  /** Write a line */
+  log(line: string): void;
+  /** Write a line to stderr */
+  error(line: string): void;
+}
+
+/**
+ * Logger writing straight to the console
+ */
+export const consoleLogger: Logger = {
+  write: (text) => { process.stdout.write(text); },
+  log: (line) => { console.log(line); },
+  error: (line) => { console.error(line); },
+};
+
+/**
+ * Run a worker over all items with at most `concurrency` in flight
+ * Results keep the order of the input items regardless of completion order.
+ */
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return results;
+}
+
+/**
+ * Limits how often an action may start (evenly spaced, shared by all callers)
+ */
+export class RateLimiter {
+  private interval: number;
+  private nextSlot = 0;
+
+  constructor(perSecond: number) {
+    this.interval = 1000 / perSecond;
+  }
+
+  /**
+   * Wait until the next slot is free
+   */
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.interval;
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+}
+
+/**
+ * Buffers output per task and prints it in task order
+ * Output of the lowest unfinished task is streamed live; later tasks are
+ * held back until every task before them has finished.
+ */
+export class OrderedOutput {
+  private buffers: string[][] = [];
+  private errorFlags: boolean[][] = [];
+  private finished: boolean[] = [];
+  private current = 0;
+
+  /**
+   * Get the logger for a task
+   */
+  logger(index: number): Logger {
+    const push = (text: string, isError: boolean) => {
+      if (index === this.current) {
+        (isError ? process.stderr : process.stdout).write(text);
+        return;
+      }
+      (this.buffers[index] ??= []).push(text);
+      (this.errorFlags[index] ??= []).push(isError);
+    };
+
+    return {
+      write: (text) => push(text, false),
+      log: (line) => push(`${line}\n`, false),
+      error: (line) => push(`${line}\n`, true),
+    };
+  }
+
+  /**
+   * Mark a task finished and flush everything that is now in order
+   */
+  finish(index: number): void {
+    this.finished[index] = true;
+
+    while (this.finished[this.current]) {
+      this.current++;
+      this.flush(this.current);
+    }
+  }
+
+  private flush(index: number): void {
+    const buffer = this.buffers[index] ?? [];
+    const errorFlags = this.errorFlags[index] ?? [];
+
+    buffer.forEach((text, i) => {
+      (errorFlags[i] ? process.stderr : process.stdout).write(text);
+    });
+
+    delete this.buffers[index];
+    delete this.errorFlags[index];
+  }
+}
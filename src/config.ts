@@ -0,0 +1,88 @@
+/**
+ * Config File Module
+ * Loads pixelpolice.config.json / pixelpolice.config.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { register } from 'ts-node';
+import { PixelPoliceConfig } from './types';
+
+/**
+ * Config file names searched in the working directory (in order)
+ */
+export const CONFIG_FILE_NAMES = [
+  'pixelpolice.config.ts',
+  'pixelpolice.config.json',
+];
+
+/**
+ * Find the config file to use
+ * @param explicitPath - Path passed via --config (must exist if given)
+ * @param cwd - Directory to search for default config file names
+ */
+export function findConfigFile(explicitPath?: string, cwd: string = process.cwd()): string | undefined {
+  if (explicitPath) {
+    const resolved = path.resolve(cwd, explicitPath);
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`Config file not found: ${resolved}`);
+    }
+    return resolved;
+  }
+
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(cwd, name);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Load a TypeScript config file
+ * Registers ts-node (transpile only) unless already running under it. Its options are fixed
+ * rather than read from a tsconfig.json, which the folder the tool runs in usually lacks.
+ */
+function loadTsConfigFile(filePath: string): unknown {
+  try {
+    if (!require.extensions['.ts']) {
+      register({
+        transpileOnly: true,
+        skipProject: true,
+        compilerOptions: { module: 'commonjs', moduleResolution: 'node' },
+      });
+    }
+
+    const loaded = require(filePath);
+    return loaded && typeof loaded === 'object' && 'default' in loaded ? loaded.default : loaded;
+  } catch (error) {
+    const message = error instanceof Error ? error.message.replace(/\s*\n\s*/g, ' ').trim() : String(error);
+    throw new Error(`Cannot load ${path.basename(filePath)} (or use pixelpolice.config.json instead): ${message}`);
+  }
+}
+
+/**
+ * Load config from a JSON or TypeScript file
+ */
+export function loadConfigFile(filePath: string): PixelPoliceConfig {
+  let data: unknown;
+
+  if (filePath.endsWith('.ts')) {
+    data = loadTsConfigFile(filePath);
+  } else {
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Invalid JSON in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`Config file must export an object: ${filePath}`);
+  }
+
+  console.log(`Using config file: ${filePath}`);
+  return data as PixelPoliceConfig;
+}
@@ -0,0 +1,383 @@
+/**
+ * Consent Module
+ * Handles cookie banners: known consent management platforms first, then button texts
+ */
+
+import { Page } from 'playwright';
+import { ConsentAction, ConsentMethod, ConsentOutcome, CookieConfig } from './types';
+import { Logger } from './concurrency';
+
+/**
+ * Common cookie banner button texts to accept (German and English)
+ */
+export const COMMON_COOKIE_TEXTS = [
+  // German
+  'Alle akzeptieren',
+  'Alles akzeptieren',
+  'Akzeptieren',
+  'Zustimmen',
+  'OK',
+  'Einverstanden',
+  'Verstanden',
+  'Alle Cookies akzeptieren',
+
+  // English
+  'Accept',
+  'Accept All',
+  'Accept all cookies',
+  'Agree',
+  'I Agree',
+  'Allow',
+  'Allow all',
+  'Okay',
+  'Got it'
+];
+
+/**
+ * Common cookie banner button texts to reject (German and English)
+ */
+export const COMMON_REJECT_TEXTS = [
+  // German
+  'Alle ablehnen',
+  'Ablehnen',
+  'Nur notwendige',
+  'Nur essenzielle Cookies akzeptieren',
+
+  // English
+  'Reject all',
+  'Reject',
+  'Decline',
+  'Only necessary'
+];
+
+/**
+ * A consent management platform and the ways to give consent through it
+ */
+interface CmpHandler {
+  name: string;
+  /** Globals and elements that identify the platform */
+  globals: string[];
+  selectors: string[];
+  /** JavaScript API call per action (evaluated in the page, may return a promise) */
+  api?: Record<ConsentAction, string>;
+  /** The platform's own buttons per action */
+  buttons?: Record<ConsentAction, string[]>;
+  /** Texts of the platform's own buttons per action, for banners without stable selectors */
+  texts?: Record<ConsentAction, string[]>;
+  /** Consent cookies per action, set before reloading the page */
+  cookies?: Record<ConsentAction, Record<string, string>>;
+}
+
+/**
+ * Known consent management platforms
+ */
+const CMP_HANDLERS: CmpHandler[] = [
+  {
+    name: 'Borlabs Cookie',
+    globals: ['BorlabsCookie'],
+    selectors: ['#BorlabsCookieBox', '#BorlabsCookieBoxWrap', '.brlbs-cmpnt-dialog'],
+    buttons: {
+      accept: ['a[data-cookie-accept-all]', '._brlbs-btn-accept-all', '.brlbs-btn-accept-all'],
+      reject: ['a[data-cookie-refuse]', '._brlbs-refuse-btn a', '.brlbs-btn-accept-only-essential'],
+    },
+  },
+  {
+    name: 'Complianz',
+    globals: ['complianz'],
+    selectors: ['#cmplz-cookiebanner-container', '.cmplz-cookiebanner'],
+    api: {
+      accept: 'cmplz_accept_all()',
+      reject: 'cmplz_deny_all()',
+    },
+    buttons: {
+      accept: ['.cmplz-btn.cmplz-accept'],
+      reject: ['.cmplz-btn.cmplz-deny'],
+    },
+    cookies: {
+      accept: {
+        'cmplz_banner-status': 'dismissed',
+        cmplz_functional: 'allow',
+        cmplz_preferences: 'allow',
+        cmplz_statistics: 'allow',
+        cmplz_marketing: 'allow',
+      },
+      reject: {
+        'cmplz_banner-status': 'dismissed',
+        cmplz_functional: 'allow',
+        cmplz_preferences: 'deny',
+        cmplz_statistics: 'deny',
+        cmplz_marketing: 'deny',
+      },
+    },
+  },
+  {
+    name: 'Cookiebot',
+    globals: ['Cookiebot'],
+    selectors: ['#CybotCookiebotDialog'],
+    api: {
+      // Preferences, statistics, marketing
+      accept: 'Cookiebot.submitCustomConsent(true, true, true)',
+      reject: 'Cookiebot.submitCustomConsent(false, false, false)',
+    },
+    buttons: {
+      accept: ['#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll', '#CybotCookiebotDialogBodyButtonAccept'],
+      reject: ['#CybotCookiebotDialogBodyButtonDecline'],
+    },
+  },
+  {
+    name: 'Real Cookie Banner',
+    // Its banner has generated class names; the plugin's scripts and settings object identify it
+    globals: ['realCookieBanner'],
+    selectors: ['script[id^="real-cookie-banner"]'],
+    texts: {
+      accept: ['Alle akzeptieren', 'Accept all'],
+      reject: [
+        'Ohne Einwilligung fortfahren',
+        'Nur essenzielle Cookies akzeptieren',
+        'Continue without consent',
+        'Accept only essential cookies',
+      ],
+    },
+  },
+  {
+    name: 'CookieYes',
+    globals: ['getCkyConsent'],
+    selectors: ['.cky-consent-container', '#cookie-law-info-bar'],
+    buttons: {
+      accept: ['.cky-btn-accept', '#cookie_action_close_header'],
+      reject: ['.cky-btn-reject', '#cookie_action_close_header_reject'],
+    },
+    cookies: {
+      accept: {
+        'cookieyes-consent': 'consent:yes,action:yes,necessary:yes,functional:yes,analytics:yes,performance:yes,advertisement:yes',
+      },
+      reject: {
+        'cookieyes-consent': 'consent:no,action:yes,necessary:yes,functional:no,analytics:no,performance:no,advertisement:no',
+      },
+    },
+  },
+  {
+    name: 'OneTrust',
+    globals: ['OneTrust'],
+    selectors: ['#onetrust-banner-sdk', '#onetrust-consent-sdk'],
+    api: {
+      accept: 'OneTrust.AllowAll()',
+      reject: 'OneTrust.RejectAll()',
+    },
+    buttons: {
+      accept: ['#onetrust-accept-btn-handler'],
+      reject: ['#onetrust-reject-all-handler'],
+    },
+  },
+  {
+    name: 'Usercentrics',
+    // UC_UI: version 2, __ucCmp: version 3
+    globals: ['UC_UI', '__ucCmp'],
+    selectors: ['#usercentrics-root', '#usercentrics-cmp-ui'],
+    api: {
+      accept: 'window.UC_UI ? UC_UI.acceptAllConsents().then(() => UC_UI.closeCMP()) : __ucCmp.acceptAllConsents()',
+      reject: 'window.UC_UI ? UC_UI.denyAllConsents().then(() => UC_UI.closeCMP()) : __ucCmp.denyAllConsents()',
+    },
+    buttons: {
+      accept: ['[data-testid="uc-accept-all-button"]'],
+      reject: ['[data-testid="uc-deny-all-button"]'],
+    },
+  },
+];
+
+/**
+ * How each method is described in the log and report
+ */
+const METHOD_LABELS: Record<ConsentMethod, string> = {
+  api: 'JavaScript API',
+  button: 'consent button',
+  cookie: 'consent cookies',
+  text: 'button text',
+  none: 'nothing',
+};
+
+/**
+ * Describe how consent was given ("Cookiebot: accepted via JavaScript API")
+ */
+export function describeConsent(outcome: ConsentOutcome): string {
+  const prefix = outcome.cmp ? `${outcome.cmp}: ` : '';
+  switch (outcome.method) {
+    case 'none':
+      return outcome.cmp ? `${prefix}no consent given` : 'No cookie banner found';
+    case 'text':
+      return `${prefix}clicked "${outcome.text}"`;
+    default:
+      return `${prefix}${outcome.action === 'reject' ? 'rejected' : 'accepted'} via ${METHOD_LABELS[outcome.method]}`;
+  }
+}
+
+/**
+ * Find the consent management platform used on the page
+ */
+async function detectCmp(page: Page): Promise<CmpHandler | undefined> {
+  const index = await page.evaluate((markers: { globals: string[]; selectors: string[] }[]) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const win = (globalThis as any).window;
+    return markers.findIndex(({ globals, selectors }) =>
+      globals.some(name => win[name] !== undefined) ||
+      selectors.some(selector => win.document.querySelector(selector) !== null)
+    );
+  }, CMP_HANDLERS.map(({ globals, selectors }) => ({ globals, selectors })));
+
+  return index >= 0 ? CMP_HANDLERS[index] : undefined;
+}
+
+/**
+ * Give consent through a platform: its API, then its buttons (by selector, then by text), then its cookies
+ * @returns The method that worked, undefined if none did
+ */
+async function applyCmp(page: Page, cmp: CmpHandler, action: ConsentAction, log: Logger): Promise<ConsentMethod | undefined> {
+  if (cmp.api) {
+    try {
+      await page.evaluate(cmp.api[action]);
+      await page.waitForTimeout(1500); // Wait for the banner to close
+      return 'api';
+    } catch (e) { /* API not loaded */ }
+  }
+
+  for (const selector of cmp.buttons?.[action] ?? []) {
+    try {
+      const button = page.locator(selector).first();
+      if (await button.isVisible({ timeout: 500 })) {
+        await button.click({ timeout: 1000 });
+        await page.waitForTimeout(1500);
+        return 'button';
+      }
+    } catch (e) { /* ignore */ }
+  }
+
+  if (cmp.texts && await clickByText(page, cmp.texts[action], log)) {
+    return 'button';
+  }
+
+  if (cmp.cookies) {
+    const url = page.url();
+    await page.context().addCookies(
+      Object.entries(cmp.cookies[action]).map(([name, value]) => ({ name, value, url }))
+    );
+    await page.reload({ waitUntil: 'networkidle', timeout: 60000 });
+    return 'cookie';
+  }
+
+  return undefined;
+}
+
+/**
+ * Click the first visible element with one of the texts
+ * @returns The text clicked, undefined if none was found
+ */
+async function clickByText(page: Page, searchTexts: string[], log: Logger): Promise<string | undefined> {
+  for (const text of searchTexts) {
+    log.log(`    Searching for cookie button with text: "${text}"`);
+
+    try {
+      // Strategy 1: Playwright's specific role locator (most reliable for actual buttons)
+      // We use explicit matching to avoid accidental clicks on privacy policy links etc.
+      const button = page.getByRole('button', { name: text });
+      if (await button.isVisible({ timeout: 500 })) {
+         await button.click({ timeout: 1000 });
+         log.log(`    Clicked cookie button (role=button): "${text}"`);
+         await page.waitForTimeout(1500); // Wait for animation
+         return text;
+      }
+    } catch (e) { /* ignore */ }
+
+    try {
+      // Strategy 2: Exact text match on common clickable elements
+      // specific tags to avoid clicking random paragraphs
+      const element = page.locator(`button:text-is("${text}"), a:text-is("${text}"), [role="button"]:text-is("${text}"), input[type="button"][value="${text}"]`);
+      if (await element.count() > 0 && await element.first().isVisible({ timeout: 500 })) {
+        await element.first().click({ timeout: 1000 });
+        log.log(`    Clicked cookie button (exact text): "${text}"`);
+        await page.waitForTimeout(1500);
+        return text;
+      }
+    } catch (e) { /* ignore */ }
+
+    try {
+       // Strategy 3: Loose text match (contains) - high risk of false positives, so we check stricter tags first
+       // Use text= syntax which is robust in Playwright
+       const textLocator = page.locator(`text=${text}`).first();
+       if (await textLocator.isVisible({ timeout: 500 })) {
+         // Check if it's clickable or inside a clickable element
+         await textLocator.click({ timeout: 1000 });
+         log.log(`    Clicked cookie element (text match): "${text}"`);
+         await page.waitForTimeout(1500);
+         return text;
+       }
+    } catch (e) { /* ignore */ }
+  }
+
+  return undefined;
+}
+
+/**
+ * Handle the cookie banner based on configuration
+ * In auto mode a known consent management platform is handled through its API, buttons
+ * or cookies; otherwise (or if that fails) common button texts are clicked.
+ * @returns How consent was given, undefined if banners are ignored
+ */
+export async function handleCookieBanner(page: Page, config: CookieConfig, log: Logger): Promise<ConsentOutcome | undefined> {
+  if (config.mode === 'none') {
+    return undefined;
+  }
+
+  log.log('    Checking for cookie banner...');
+
+  // Trigger scroll-based banners
+  try {
+    await page.mouse.wheel(0, 10);
+    await page.waitForTimeout(500);
+  } catch (e) { /* ignore */ }
+
+  const action = config.action ?? 'accept';
+
+  try {
+    let cmp: CmpHandler | undefined;
+    if (config.mode === 'auto') {
+      cmp = await detectCmp(page);
+      if (cmp) {
+        const method = await applyCmp(page, cmp, action, log);
+        if (method) {
+          const outcome: ConsentOutcome = { cmp: cmp.name, method, action };
+          log.log(`    ${describeConsent(outcome)}`);
+          return outcome;
+        }
+        log.log(`    ${cmp.name} detected, trying button texts`);
+      }
+    }
+
+    const searchTexts = config.mode === 'custom' && config.customText
+      ? [config.customText]
+      : action === 'reject' ? COMMON_REJECT_TEXTS : COMMON_COOKIE_TEXTS;
+
+    const text = await clickByText(page, searchTexts, log);
+    if (text) {
+      return { cmp: cmp?.name, method: 'text', action, text };
+    }
+
+    if (config.mode === 'custom') {
+      log.error(`    Warning: Could not find any clickable element containing "${config.customText}"`);
+      // Fallback: Dump visible buttons to help user debug
+      try {
+         const buttons = await page.getByRole('button').allInnerTexts();
+         const visibleButtons = buttons.filter(b => b.trim().length > 0).slice(0, 10);
+         if (visibleButtons.length > 0) {
+           log.log(`    Visible buttons found on page: ${visibleButtons.join(', ')}`);
+         }
+      } catch (e) { /* ignore */ }
+    }
+
+    const outcome: ConsentOutcome = { cmp: cmp?.name, method: 'none' };
+    log.log(`    ${describeConsent(outcome)}`);
+    return outcome;
+  } catch (error) {
+    log.error(`    Warning: Error handling cookie banner: ${error instanceof Error ? error.message : String(error)}`);
+    return { method: 'none' };
+  }
+}
@@ -7,7 +7,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { PNG } from 'pngjs';
 import pixelmatch from 'pixelmatch';
-import { DiffResult } from './types';
+import { ComponentDiff, DiffMode, DiffResult, Region, ShiftResult } from './types';
+import { findBands, matchRows } from './align';
 
 /**
  * Options for image comparison
@@ -21,15 +22,33 @@ export interface CompareOptions {
   alpha?: number;
   /** If true, only show diff on transparent background */
   diffMask?: boolean;
+  /** Regions excluded from the comparison in both images (not counted in diffPixels) */
+  ignoreRegions?: Region[];
+  /** Regions masked in one phase's capture only, e.g. masked elements that moved */
+  beforeRegions?: Region[];
+  afterRegions?: Region[];
+  /** Noise mask PNG; its opaque pixels are excluded from the comparison */
+  noiseMaskPath?: string;
+  /** Position of the images within the noise mask (element screenshots of a full-page mask) */
+  noiseMaskOrigin?: { x: number; y: number };
+  /** 'shift' also aligns rows and reports inserted, removed and modified bands. Default: 'pixel' */
+  mode?: DiffMode;
 }
 
-const DEFAULT_OPTIONS: Required<CompareOptions> = {
+const DEFAULT_OPTIONS: Required<Omit<CompareOptions, 'noiseMaskPath' | 'noiseMaskOrigin'>> = {
   threshold: 0.1,
   diffColor: [255, 0, 0],
   alpha: 0.1,
   diffMask: false,
+  ignoreRegions: [],
+  beforeRegions: [],
+  afterRegions: [],
+  mode: 'pixel',
 };
 
+/** Fill color for ignored regions (matches the capture mask color) */
+const IGNORE_COLOR: [number, number, number] = [255, 0, 255];
+
 /**
  * Read a PNG file and return the PNG object
  */
@@ -82,6 +101,194 @@ function padImage(png: PNG, targetWidth: number, targetHeight: number): PNG {
   return padded;
 }
 
+/**
+ * Clip regions to the image bounds, dropping empty ones
+ */
+function clipRegions(regions: Region[], width: number, height: number): Region[] {
+  return regions
+    .map(region => {
+      const x = Math.max(0, Math.floor(region.x));
+      const y = Math.max(0, Math.floor(region.y));
+      const right = Math.min(width, Math.ceil(region.x + region.width));
+      const bottom = Math.min(height, Math.ceil(region.y + region.height));
+      return { x, y, width: right - x, height: bottom - y };
+    })
+    .filter(region => region.width > 0 && region.height > 0);
+}
+
+/**
+ * Paint regions with a solid color so they compare as identical
+ * @param mapRow - Row of the image to paint a region row into (shifted content)
+ */
+function fillRegions(png: PNG, regions: Region[], mapRow: (y: number) => number = y => y): void {
+  const [r, g, b] = IGNORE_COLOR;
+
+  for (const region of regions) {
+    for (let regionY = region.y; regionY < region.y + region.height; regionY++) {
+      const y = mapRow(regionY);
+      if (y < 0 || y >= png.height) {
+        continue;
+      }
+      for (let x = region.x; x < region.x + region.width; x++) {
+        const idx = (png.width * y + x) * 4;
+        png.data[idx] = r;
+        png.data[idx + 1] = g;
+        png.data[idx + 2] = b;
+        png.data[idx + 3] = 255;
+      }
+    }
+  }
+}
+
+/**
+ * Make pixels covered by a noise mask identical in both images
+ * The mask is measured on the before page; mapRow gives the after row of a before row.
+ * @param origin - Position of the images' top left corner within the mask
+ * @returns Number of those pixels that actually differed
+ */
+function applyNoiseMask(
+  img1: PNG,
+  img2: PNG,
+  mask: PNG,
+  origin = { x: 0, y: 0 },
+  mapRow: (y: number) => number = y => y
+): number {
+  const width = Math.min(img1.width, mask.width - origin.x);
+  const height = Math.min(img1.height, mask.height - origin.y);
+  let differing = 0;
+
+  for (let y = 0; y < height; y++) {
+    const afterY = mapRow(y);
+    if (afterY < 0 || afterY >= img2.height) {
+      continue;
+    }
+    for (let x = 0; x < width; x++) {
+      if (mask.data[(mask.width * (y + origin.y) + x + origin.x) * 4 + 3] === 0) {
+        continue;
+      }
+      const idx = (img1.width * y + x) * 4;
+      const afterIdx = (img2.width * afterY + x) * 4;
+      let same = true;
+      for (let channel = 0; channel < 4; channel++) {
+        if (img1.data[idx + channel] !== img2.data[afterIdx + channel]) {
+          same = false;
+          img2.data[afterIdx + channel] = img1.data[idx + channel];
+        }
+      }
+      if (!same) {
+        differing++;
+      }
+    }
+  }
+
+  return differing;
+}
+
+/**
+ * Copy rows of an image into a new image of the given height (padded with white)
+ */
+function cropRows(png: PNG, y: number, rows: number, height: number): PNG {
+  const cropped = new PNG({ width: png.width, height });
+  cropped.data.fill(255);
+  png.data.copy(cropped.data, 0, png.width * y * 4, png.width * (y + rows) * 4);
+  return cropped;
+}
+
+/**
+ * Copy an image
+ */
+function clonePng(png: PNG): PNG {
+  const copy = new PNG({ width: png.width, height: png.height });
+  png.data.copy(copy.data);
+  return copy;
+}
+
+/**
+ * Map before rows to after rows through matched rows
+ * Unmatched rows move with the last match above them.
+ */
+function rowMapper(matches: [number, number][], height: number): (y: number) => number {
+  const offsets = new Int32Array(height);
+  let next = 0;
+  let offset = 0;
+  for (let y = 0; y < height; y++) {
+    while (next < matches.length && matches[next][0] <= y) {
+      offset = matches[next][1] - matches[next][0];
+      next++;
+    }
+    offsets[y] = offset;
+  }
+  return y => y + (y < height ? offsets[y] : offset);
+}
+
+/**
+ * Masking of the shift analysis, in screenshot pixels
+ */
+interface ShiftMasks {
+  /** Regions at the same page position in both phases (mapped through the alignment) */
+  shared: Region[];
+  /** Regions masked in one phase only */
+  before: Region[];
+  after: Region[];
+  noise?: { mask: PNG; origin?: { x: number; y: number } };
+}
+
+/**
+ * Align the rows of both images and count the changed pixels of each band
+ * Each phase's own masked regions are painted into its image before aligning, so a masked
+ * element that moved aligns with itself; shared regions and the noise mask are applied after,
+ * through the alignment. Modified bands are compared with pixelmatch; inserted and removed
+ * rows count in full.
+ */
+function analyzeShift(
+  before: PNG,
+  after: PNG,
+  beforeHeight: number,
+  afterHeight: number,
+  threshold: number,
+  masks: ShiftMasks
+): ShiftResult {
+  const { width } = before;
+  const img1 = clonePng(before);
+  const img2 = clonePng(after);
+  fillRegions(img1, masks.before);
+  fillRegions(img2, masks.after);
+
+  const matches = matchRows(img1, beforeHeight, img2, afterHeight);
+  const mapRow = rowMapper(matches, img1.height);
+  fillRegions(img1, masks.shared);
+  fillRegions(img2, masks.shared, mapRow);
+  if (masks.noise) {
+    applyNoiseMask(img1, img2, masks.noise.mask, masks.noise.origin, mapRow);
+  }
+
+  const bands = findBands(matches, beforeHeight, afterHeight).filter(band => {
+    if (band.kind === 'modified') {
+      const height = Math.max(band.beforeHeight, band.afterHeight);
+      band.diffPixels = pixelmatch(
+        cropRows(img1, band.beforeY, band.beforeHeight, height).data,
+        cropRows(img2, band.afterY, band.afterHeight, height).data,
+        undefined,
+        width,
+        height,
+        { threshold }
+      );
+    } else {
+      band.diffPixels = width * (band.beforeHeight + band.afterHeight);
+    }
+    // Rows that only differ below the matching threshold aren't a change
+    return band.diffPixels > 0;
+  });
+
+  const adjustedDiffPixels = bands.reduce((sum, band) => sum + band.diffPixels, 0);
+  return {
+    bands,
+    shiftedRows: matches.filter(([beforeRow, afterRow]) => beforeRow !== afterRow).length,
+    adjustedDiffPixels,
+    adjustedDiffPercentage: (adjustedDiffPixels / (width * Math.max(beforeHeight, afterHeight))) * 100,
+  };
+}
+
 /**
  * Compare two screenshots and generate a diff image
  * 
@@ -111,6 +318,9 @@ export function compareScreenshots(
   let img1 = readPng(beforePath);
   let img2 = readPng(afterPath);
 
+  const beforeDimensions = { width: img1.width, height: img1.height };
+  const afterDimensions = { width: img2.width, height: img2.height };
+
   // Handle different dimensions
   const width = Math.max(img1.width, img2.width);
   const height = Math.max(img1.height, img2.height);
@@ -122,6 +332,30 @@ export function compareScreenshots(
     img2 = padImage(img2, width, height);
   }
 
+  const noiseMask = options.noiseMaskPath ? readPng(options.noiseMaskPath) : undefined;
+
+  // Align rows to tell content that moved from content that changed
+  const shift = opts.mode === 'shift'
+    ? analyzeShift(img1, img2, beforeDimensions.height, afterDimensions.height, opts.threshold, {
+      shared: clipRegions(opts.ignoreRegions, width, height),
+      before: clipRegions(opts.beforeRegions, width, height),
+      after: clipRegions(opts.afterRegions, width, height),
+      noise: noiseMask && { mask: noiseMask, origin: options.noiseMaskOrigin },
+    })
+    : undefined;
+
+  // Exclude ignored regions by painting them identically in both images
+  const ignoredRegions = clipRegions([...opts.ignoreRegions, ...opts.beforeRegions, ...opts.afterRegions], width, height);
+  if (ignoredRegions.length > 0) {
+    fillRegions(img1, ignoredRegions);
+    fillRegions(img2, ignoredRegions);
+  }
+
+  // Exclude pixels that also change between two captures of the unchanged page
+  const noisePixels = noiseMask
+    ? applyNoiseMask(img1, img2, noiseMask, options.noiseMaskOrigin)
+    : undefined;
+
   // Create diff image
   const diff = new PNG({ width, height });
 
@@ -159,35 +393,85 @@ export function compareScreenshots(
     diffPercentage,
     diffPath,
     dimensionsDiffer,
-    beforeDimensions: { width: img1.width, height: img1.height },
-    afterDimensions: { width: img2.width, height: img2.height },
+    beforeDimensions,
+    afterDimensions,
+    ignoredRegions,
+    noisePixels,
+    shift,
   };
 }
 
 /**
- * Compare all before/after screenshot pairs for a given phase
- * 
- * @param beforeScreenshots - Array of before screenshot paths (desktop, mobile)
- * @param afterScreenshots - Array of after screenshot paths (desktop, mobile)
- * @param diffFolder - Folder to save diff images
- * @returns Object with desktop and mobile diff results
- */
-export function compareAllScreenshots(
-  beforeDesktopPath: string,
-  beforeMobilePath: string,
-  afterDesktopPath: string,
-  afterMobilePath: string,
+ * Masking for the components of one viewport, in screenshot pixels
+ */
+export interface ComponentCompareOptions {
+  /** Page region of each component per phase */
+  beforeRegions?: Record<string, Region>;
+  afterRegions?: Record<string, Region>;
+  /** Page regions excluded from the comparison */
+  ignoreRegions?: Region[];
+  /** Full-page noise mask of the viewport */
+  noiseMaskPath?: string;
+  /** Diff mode of the page comparisons */
+  mode?: DiffMode;
+}
+
+/**
+ * Move page regions into the coordinates of an element screenshot at the given page region
+ */
+function toElementRegions(regions: Region[], element: Region): Region[] {
+  return regions.map(region => ({ ...region, x: region.x - element.x, y: region.y - element.y }));
+}
+
+/**
+ * Compare the element screenshots of the components of one viewport
+ * Paths are relative to the project folder, and so are the stored diff paths.
+ * Components found in one phase only are added or removed; a component that can't be
+ * compared is failed without affecting the others.
+ */
+export function compareComponents(
+  beforePaths: Record<string, string> = {},
+  afterPaths: Record<string, string> = {},
+  projectFolder: string,
   diffFolder: string,
-  slug: string
-): { desktop: DiffResult; mobile: DiffResult } {
-  const desktopDiffPath = path.join(diffFolder, `${slug}-desktop-diff.png`);
-  const mobileDiffPath = path.join(diffFolder, `${slug}-mobile-diff.png`);
+  options: ComponentCompareOptions = {}
+): Record<string, ComponentDiff> {
+  const components: Record<string, ComponentDiff> = {};
+  const names = new Set([...Object.keys(beforePaths), ...Object.keys(afterPaths)]);
 
-  console.log(`  Comparing desktop screenshots...`);
-  const desktop = compareScreenshots(beforeDesktopPath, afterDesktopPath, desktopDiffPath);
+  for (const name of names) {
+    const beforePath = beforePaths[name];
+    const afterPath = afterPaths[name];
+    if (!beforePath || !afterPath) {
+      components[name] = { status: beforePath ? 'removed' : 'added' };
+      continue;
+    }
+
+    // Page regions are moved to where the element was in each phase
+    const beforeRegion = options.beforeRegions?.[name];
+    const afterRegion = options.afterRegions?.[name];
 
-  console.log(`  Comparing mobile screenshots...`);
-  const mobile = compareScreenshots(beforeMobilePath, afterMobilePath, mobileDiffPath);
+    try {
+      const diffPath = path.join(diffFolder, `${path.basename(beforePath, '.png')}-diff.png`);
+      const diff = compareScreenshots(
+        path.join(projectFolder, beforePath),
+        path.join(projectFolder, afterPath),
+        diffPath,
+        {
+          beforeRegions: beforeRegion ? toElementRegions(options.ignoreRegions ?? [], beforeRegion) : [],
+          afterRegions: afterRegion ? toElementRegions(options.ignoreRegions ?? [], afterRegion) : [],
+          mode: options.mode,
+          // The noise mask was measured on the before page
+          noiseMaskPath: beforeRegion && options.noiseMaskPath,
+          noiseMaskOrigin: beforeRegion && { x: Math.round(beforeRegion.x), y: Math.round(beforeRegion.y) },
+        }
+      );
+      diff.diffPath = path.relative(projectFolder, diffPath);
+      components[name] = { status: diff.diffPixels > 0 ? 'changed' : 'unchanged', diff };
+    } catch (error) {
+      components[name] = { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
 
-  return { desktop, mobile };
+  return components;
 }
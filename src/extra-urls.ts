@@ -0,0 +1,196 @@
+/**
+ * Extra URLs Module
+ * Loads user-supplied URLs and filters discovered URLs by exclude patterns
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExtraUrl, UrlToScreenshot } from './types';
+import { normalizeUrl, slugFromParts } from './wordpress-api';
+import { matchesUrlPattern } from './patterns';
+
+/**
+ * Report group of extra URLs without one
+ */
+export const DEFAULT_EXTRA_GROUP = 'custom';
+
+/**
+ * Split a CSV line into cells ("quoted, cells" and "" escapes supported)
+ */
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+
+  return cells;
+}
+
+/**
+ * Parse CSV rows: url, title, group (a header row may name and reorder the columns)
+ */
+function parseCsv(content: string): ExtraUrl[] {
+  const rows = content
+    .split(/\r?\n/)
+    .filter(line => line.trim().length > 0)
+    .map(parseCsvLine);
+
+  let columns = ['url', 'title', 'group'];
+  if (rows[0]?.some(cell => cell.toLowerCase() === 'url')) {
+    columns = rows.shift()!.map(cell => cell.toLowerCase());
+  }
+
+  return rows.map(row => {
+    const value = (column: string) => row[columns.indexOf(column)] || undefined;
+    return { url: value('url') ?? '', title: value('title'), group: value('group') };
+  });
+}
+
+/**
+ * Parse a text file: one URL per line, optionally followed by a title; # starts a comment
+ */
+function parseText(content: string): ExtraUrl[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith('#'))
+    .map(line => {
+      const [url, ...title] = line.split(/\s+/);
+      return { url, title: title.length > 0 ? title.join(' ') : undefined };
+    });
+}
+
+/**
+ * Parse a JSON file: an array (or { "urls": [...] }) of URLs or { url, title, group } objects
+ */
+function parseJson(content: string, filePath: string): (string | ExtraUrl)[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const list = Array.isArray(data) ? data : (data as { urls?: unknown } | null)?.urls;
+  if (!Array.isArray(list)) {
+    throw new Error(`URL file must contain an array of URLs: ${filePath}`);
+  }
+  return list as (string | ExtraUrl)[];
+}
+
+/**
+ * Load extra URLs from a .txt, .csv or .json file
+ */
+export function loadUrlFile(filePath: string, cwd: string = process.cwd()): (string | ExtraUrl)[] {
+  const resolved = path.resolve(cwd, filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`URL file not found: ${resolved}`);
+  }
+
+  const content = fs.readFileSync(resolved, 'utf-8');
+  let extras: (string | ExtraUrl)[];
+  switch (path.extname(resolved).toLowerCase()) {
+    case '.json':
+      extras = parseJson(content, resolved);
+      break;
+    case '.csv':
+      extras = parseCsv(content);
+      break;
+    default:
+      extras = parseText(content);
+  }
+
+  for (const extra of extras) {
+    const result = validateExtraUrl(extra);
+    if (result !== true) {
+      throw new Error(`Invalid URL in ${resolved}: ${result}`);
+    }
+  }
+
+  console.log(`Read ${extras.length} URLs from ${resolved}`);
+  return extras;
+}
+
+/**
+ * Check an extra URL: a full http(s) URL or a path starting with /
+ * @returns true if valid, otherwise the error message
+ */
+export function validateExtraUrl(extra: unknown): true | string {
+  const url = typeof extra === 'string' ? extra : (extra as ExtraUrl | null)?.url;
+  if (typeof url !== 'string' || !/^(https?:\/\/|\/)/.test(url)) {
+    return `Expected a full URL or a path starting with / (got ${JSON.stringify(extra)})`;
+  }
+  return true;
+}
+
+/**
+ * Slug for an extra URL: path segments and query joined
+ */
+function slugFromUrl(url: URL): string {
+  const parts = url.pathname.split('/').filter(segment => segment.length > 0);
+  if (url.search) {
+    parts.push(url.search.slice(1));
+  }
+  return slugFromParts(parts, url);
+}
+
+/**
+ * Turn extra URLs into URLs to screenshot (paths are resolved against the site URL)
+ */
+export function resolveExtraUrls(extras: (string | ExtraUrl)[], siteUrl: string): UrlToScreenshot[] {
+  const base = `${normalizeUrl(siteUrl)}/`;
+
+  return extras.map(extra => {
+    const { url, title, group } = typeof extra === 'string' ? { url: extra } as ExtraUrl : extra;
+    const parsed = new URL(url.startsWith('/') ? url.slice(1) : url, base);
+    let pathTitle = parsed.pathname + parsed.search;
+    try {
+      pathTitle = decodeURIComponent(pathTitle);
+    } catch {
+      // Keep the encoded path
+    }
+
+    return {
+      url: parsed.toString(),
+      slug: slugFromUrl(parsed),
+      postType: group ?? DEFAULT_EXTRA_GROUP,
+      title: title ?? pathTitle,
+    };
+  });
+}
+
+/**
+ * Drop URLs matching any of the exclude patterns
+ */
+export function excludeUrls(urls: UrlToScreenshot[], patterns: string[] = []): UrlToScreenshot[] {
+  if (patterns.length === 0) {
+    return urls;
+  }
+
+  const kept = urls.filter(url => !patterns.some(pattern => matchesUrlPattern(url.url, pattern)));
+  if (kept.length < urls.length) {
+    console.log(`Excluded ${urls.length - kept.length} URLs matching ${patterns.join(', ')}`);
+  }
+  return kept;
+}
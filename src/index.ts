@@ -7,22 +7,87 @@
  * Captures before/after screenshots of WordPress sites to track visual changes during updates.
  */
 
-import { input, confirm, checkbox, select } from "@inquirer/prompts";
+import { input, confirm, checkbox, select, Separator } from "@inquirer/prompts";
 import {
   buildUrlList,
   normalizeUrl,
   extractDomain,
   checkApiAccess,
   fetchPostTypesWithDetails,
+  fetchPageGroups,
+  mergeUrlLists,
+  setApiAuth,
 } from "./wordpress-api";
+import { buildSitemapUrlList } from "./sitemap";
 import { ScreenshotManager, createProjectFolder } from "./screenshot";
 import { saveReport } from "./report";
-import { ProjectConfig, WPPostType, ComparisonResult, CookieConfig } from "./types";
-import { compareScreenshots } from "./diff";
+import {
+  ProjectConfig,
+  ScreenshotResult,
+  WPPostType,
+  PageGroup,
+  MultilingualSite,
+  WooCommerceStore,
+  ComparisonResult,
+  CookieConfig,
+  PixelPoliceConfig,
+  ViewportType,
+  UrlToScreenshot,
+  Region,
+  DEFAULT_BROWSERS,
+} from "./types";
+import { compareComponents, compareScreenshots } from "./diff";
+import { classifyComparison } from "./thresholds";
+import { resolveMask, scaleRegions } from "./mask";
+import {
+  baseViewport,
+  captureKeys,
+  resolveViewports,
+  viewportLabel,
+} from "./viewports";
+import { resolveStabilize } from "./stabilize";
+import { resolveSampling, ResolvedSampling } from "./sampling";
+import { discoverNetworkSites, findSite, siteLabel } from "./multisite";
+import { excludeUrls, loadUrlFile, resolveExtraUrls } from "./extra-urls";
+import { detectMultilingual, addTranslations } from "./languages";
+import {
+  detectWooCommerce,
+  buildWooCommerceUrls,
+  GENERIC_PRODUCT_SLUGS,
+  WOOCOMMERCE_GROUPS,
+} from "./woocommerce";
+import { resolveLogin } from "./auth";
+import { COMMON_COOKIE_TEXTS } from "./consent";
+import {
+  fetchInventory,
+  describeInventory,
+  compareInventories,
+} from "./inventory";
+import {
+  parseCliArgs,
+  mergeConfigs,
+  validateConfig,
+  validateSiteUrl,
+  validateCookieText,
+  USAGE,
+  CliArgs,
+} from "./cli";
+import { findConfigFile, loadConfigFile } from "./config";
+import {
+  saveManifest,
+  loadManifest,
+  findProjectFolders,
+  MANIFEST_FILENAME,
+} from "./manifest";
 import { exec } from "child_process";
 import * as path from "path";
 import * as fs from "fs";
 
+/**
+ * Exit code when at least one page failed its thresholds
+ */
+const EXIT_CODE_THRESHOLD_FAILED = 2;
+
 /**
  * Display welcome banner
  */
@@ -94,20 +159,60 @@ function openInBrowser(filePath: string): void {
 }
 
 /**
- * Let user select which post types to include
+ * Post types and other page groups selected for the URL list
+ */
+interface UrlSelection {
+  postTypes: WPPostType[];
+  pageGroups: PageGroup[];
+}
+
+/**
+ * Pick post types and page groups by slug (from flags or config file)
+ */
+function pickPostTypes(
+  postTypes: WPPostType[],
+  pageGroups: PageGroup[],
+  slugs: string[],
+): UrlSelection {
+  const available = [...postTypes, ...pageGroups].map((item) => item.slug);
+  const unknown = slugs.filter((slug) => !available.includes(slug));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown post type(s): ${unknown.join(", ")}. Available: ${available.join(", ")}`,
+    );
+  }
+  return {
+    postTypes: postTypes.filter((pt) => slugs.includes(pt.slug)),
+    pageGroups: pageGroups.filter((group) => slugs.includes(group.slug)),
+  };
+}
+
+/**
+ * Let user select which post types and other pages to include
  */
-async function selectPostTypes(postTypes: WPPostType[]): Promise<WPPostType[]> {
-  if (postTypes.length === 0) {
-    return [];
+async function selectPostTypes(
+  postTypes: WPPostType[],
+  pageGroups: PageGroup[],
+): Promise<UrlSelection> {
+  if (postTypes.length === 0 && pageGroups.length === 0) {
+    return { postTypes: [], pageGroups: [] };
   }
 
   console.log("\n");
 
-  const choices = postTypes.map((pt) => ({
-    name: `${pt.name} (${pt.slug})`,
-    value: pt.slug,
-    checked: true, // All selected by default
-  }));
+  const choices = [
+    ...postTypes.map((pt) => ({
+      name: `${pt.name} (${pt.slug})`,
+      value: pt.slug,
+      checked: true, // All selected by default
+    })),
+    new Separator("-- Other pages --"),
+    ...pageGroups.map((group) => ({
+      name: `${group.name} (${group.slug})`,
+      value: group.slug,
+      checked: true,
+    })),
+  ];
 
   const selectedSlugs = await checkbox({
     message:
@@ -115,22 +220,117 @@ async function selectPostTypes(postTypes: WPPostType[]): Promise<WPPostType[]> {
     choices,
   });
 
-  // Filter to only selected post types
-  const selectedTypes = postTypes.filter((pt) =>
-    selectedSlugs.includes(pt.slug),
-  );
-
   // Show what was excluded by user
-  const userExcluded = postTypes.filter(
-    (pt) => !selectedSlugs.includes(pt.slug),
+  const userExcluded = [...postTypes, ...pageGroups].filter(
+    (item) => !selectedSlugs.includes(item.slug),
   );
   if (userExcluded.length > 0) {
     console.log(
-      `\nExcluded by user: ${userExcluded.map((pt) => pt.slug).join(", ")}`,
+      `\nExcluded by user: ${userExcluded.map((item) => item.slug).join(", ")}`,
     );
   }
 
-  return selectedTypes;
+  return pickPostTypes(postTypes, pageGroups, selectedSlugs);
+}
+
+/**
+ * Error for a required value that is missing when prompts are disabled
+ */
+function missingOption(flag: string, configKey: string): Error {
+  return new Error(
+    `Missing required value: pass ${flag} or set "${configKey}" in the config file (running non-interactively)`,
+  );
+}
+
+/**
+ * Describe why a viewport has no before/after pair
+ */
+function describeCaptureFailure(
+  before: ScreenshotResult,
+  after: ScreenshotResult,
+  viewport: ViewportType,
+): string {
+  return (["before", "after"] as const)
+    .map((phase) => {
+      const result = phase === "before" ? before : after;
+      if (result.screenshots[viewport]) {
+        return "";
+      }
+      const outcome = result.captures?.[baseViewport(viewport)];
+      return outcome && outcome.status !== "ok"
+        ? `${phase} capture failed (${outcome.status}: ${outcome.error})`
+        : `${phase} capture missing`;
+    })
+    .filter((reason) => reason.length > 0)
+    .join(", ");
+}
+
+/**
+ * Compare the two before captures of every page and store the noise masks
+ */
+function measureNoise(config: ProjectConfig): void {
+  console.log("\nMeasuring noise between the two BEFORE captures...\n");
+
+  let unstableCount = 0;
+
+  for (const before of config.beforeScreenshots) {
+    const engineLabel =
+      config.browsers.length > 1 ? ` [${before.browser}]` : "";
+    const noisyViewports: string[] = [];
+
+    for (const [viewport, repeatPath] of Object.entries(
+      before.repeatScreenshots ?? {},
+    )) {
+      const firstPath = before.screenshots[viewport];
+      if (!firstPath) {
+        continue;
+      }
+
+      const maskPath = path.join(
+        config.projectFolder,
+        "noise",
+        before.browser,
+        `${path.basename(firstPath, ".png")}-noise.png`,
+      );
+
+      try {
+        const result = compareScreenshots(
+          path.join(config.projectFolder, firstPath),
+          path.join(config.projectFolder, repeatPath),
+          maskPath,
+          { diffMask: true },
+        );
+        before.noise = {
+          ...before.noise,
+          [viewport]: {
+            maskPath: path.relative(config.projectFolder, maskPath),
+            noisePixels: result.diffPixels,
+            noisePercentage: result.diffPercentage,
+          },
+        };
+        if (result.diffPixels > 0) {
+          noisyViewports.push(
+            `${viewportLabel(viewport)} ${result.diffPercentage.toFixed(2)}%`,
+          );
+        }
+      } catch (error) {
+        console.error(
+          `  Error measuring noise for ${before.slug}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    if (noisyViewports.length > 0) {
+      unstableCount++;
+      console.log(
+        `  Unstable: ${before.title}${engineLabel} (${noisyViewports.join(", ")})`,
+      );
+    }
+  }
+
+  console.log(
+    `\n${unstableCount} of ${config.beforeScreenshots.length} pages render differently on every load; those pixels are ignored in the comparison.`,
+  );
 }
 
 /**
@@ -138,96 +338,187 @@ async function selectPostTypes(postTypes: WPPostType[]): Promise<WPPostType[]> {
  */
 function generateDiffComparisons(config: ProjectConfig): ComparisonResult[] {
   const comparisons: ComparisonResult[] = [];
-  const diffFolder = path.join(config.projectFolder, "diff");
-
-  // Ensure diff folder exists
-  if (!fs.existsSync(diffFolder)) {
-    fs.mkdirSync(diffFolder, { recursive: true });
-  }
+  const multipleBrowsers = config.browsers.length > 1;
 
   console.log("\nGenerating visual diff comparisons...\n");
 
   for (const before of config.beforeScreenshots) {
+    // Before and after are only compared within the same engine
     const after = config.afterScreenshots.find(
-      (a) => a.slug === before.slug && a.postType === before.postType,
+      (a) =>
+        a.slug === before.slug &&
+        a.postType === before.postType &&
+        a.site === before.site &&
+        a.language === before.language &&
+        a.browser === before.browser,
     );
+    const engineLabel = multipleBrowsers ? ` [${before.browser}]` : "";
 
     if (!after) {
-      console.log(`  Skipping ${before.slug}: no "after" screenshot found`);
+      console.log(
+        `  Skipping ${before.slug}${engineLabel}: no "after" screenshot found`,
+      );
       continue;
     }
 
-    console.log(`  Comparing: ${before.title}`);
-
-    try {
-      // Generate desktop diff
-      const beforeDesktopPath = path.join(
-        config.projectFolder,
-        before.desktopPath,
-      );
-      const afterDesktopPath = path.join(
-        config.projectFolder,
-        after.desktopPath,
-      );
-      const desktopDiffPath = path.join(
-        diffFolder,
-        `${before.postType}-${before.slug}-desktop-diff.png`,
-      );
-      const desktopDiff = compareScreenshots(
-        beforeDesktopPath,
-        afterDesktopPath,
-        desktopDiffPath,
-      );
+    console.log(`  Comparing: ${before.title}${engineLabel}`);
 
-      // Generate mobile diff
-      const beforeMobilePath = path.join(
-        config.projectFolder,
-        before.mobilePath,
-      );
-      const afterMobilePath = path.join(config.projectFolder, after.mobilePath);
-      const mobileDiffPath = path.join(
-        diffFolder,
-        `${before.postType}-${before.slug}-mobile-diff.png`,
-      );
-      const mobileDiff = compareScreenshots(
-        beforeMobilePath,
-        afterMobilePath,
-        mobileDiffPath,
-      );
+    // Ensure diff folder exists
+    const diffFolder = path.join(config.projectFolder, "diff", before.browser);
+    if (!fs.existsSync(diffFolder)) {
+      fs.mkdirSync(diffFolder, { recursive: true });
+    }
 
-      comparisons.push({
+    try {
+      const comparison: ComparisonResult = {
         url: before.url,
         slug: before.slug,
         postType: before.postType,
         title: before.title,
-        before: {
-          desktopPath: before.desktopPath,
-          mobilePath: before.mobilePath,
-        },
-        after: {
-          desktopPath: after.desktopPath,
-          mobilePath: after.mobilePath,
-        },
-        diff: {
-          desktop: desktopDiff,
-          mobile: mobileDiff,
-        },
-      });
+        site: before.site,
+        language: before.language,
+        browser: before.browser,
+        before: { ...before.screenshots },
+        after: { ...after.screenshots },
+        diff: {},
+      };
+
+      // Every viewport plus the interaction screenshots taken at it
+      const keys = config.viewports.flatMap(({ name, deviceScaleFactor = 1 }) =>
+        captureKeys(name, before.screenshots, after.screenshots).map(
+          (key) => ({ viewport: key, deviceScaleFactor }),
+        ),
+      );
 
-      // Show diff summary
-      const desktopChanged = desktopDiff.diffPercentage > 0;
-      const mobileChanged = mobileDiff.diffPercentage > 0;
+      for (const { viewport, deviceScaleFactor } of keys) {
+        const beforePath = comparison.before[viewport];
+        const afterPath = comparison.after[viewport];
+        if (!beforePath || !afterPath) {
+          comparison.failedCaptures = [
+            ...(comparison.failedCaptures ?? []),
+            viewport,
+          ];
+          console.log(
+            `    ${viewport}: not compared, ${describeCaptureFailure(before, after, viewport)}`,
+          );
+          continue;
+        }
 
-      if (desktopChanged || mobileChanged) {
-        console.log(
-          `    Desktop: ${desktopDiff.diffPixels.toLocaleString()} pixels changed (${desktopDiff.diffPercentage.toFixed(2)}%)`,
+        const diffPath = path.join(
+          diffFolder,
+          `${path.basename(beforePath, ".png")}-diff.png`,
         );
-        console.log(
-          `    Mobile:  ${mobileDiff.diffPixels.toLocaleString()} pixels changed (${mobileDiff.diffPercentage.toFixed(2)}%)`,
+        // Ignore configured regions plus masked elements from both phases
+        // (CSS pixels, scaled to screenshot pixels)
+        const noise = before.noise?.[viewport];
+        const diff = compareScreenshots(
+          path.join(config.projectFolder, beforePath),
+          path.join(config.projectFolder, afterPath),
+          diffPath,
+          {
+            ignoreRegions: scaleRegions(
+              resolveMask(config.mask, before.url, baseViewport(viewport))
+                .regions,
+              deviceScaleFactor,
+            ),
+            beforeRegions: scaleRegions(
+              before.maskedRegions?.[viewport] ?? [],
+              deviceScaleFactor,
+            ),
+            afterRegions: scaleRegions(
+              after.maskedRegions?.[viewport] ?? [],
+              deviceScaleFactor,
+            ),
+            noiseMaskPath:
+              noise && path.join(config.projectFolder, noise.maskPath),
+            mode: config.diffMode,
+          },
         );
-      } else {
+        // Store relative to the project folder, like the screenshot paths
+        diff.diffPath = path.relative(config.projectFolder, diffPath);
+        comparison.diff[viewport] = diff;
+      }
+
+      // Components of the viewports captured in both phases, masked like their page
+      for (const { name: viewport, deviceScaleFactor = 1 } of config.viewports) {
+        const beforeComponents = before.componentScreenshots?.[viewport];
+        const afterComponents = after.componentScreenshots?.[viewport];
+        if (!comparison.diff[viewport] || (!beforeComponents && !afterComponents)) {
+          continue;
+        }
+        const scaleComponentRegions = (regions: Record<string, Region> = {}) =>
+          Object.fromEntries(
+            Object.entries(regions).map(([name, region]) => [
+              name,
+              scaleRegions([region], deviceScaleFactor)[0],
+            ]),
+          );
+        const noise = before.noise?.[viewport];
+        comparison.components = {
+          ...comparison.components,
+          [viewport]: compareComponents(
+            beforeComponents,
+            afterComponents,
+            config.projectFolder,
+            diffFolder,
+            {
+              beforeRegions: scaleComponentRegions(
+                before.componentRegions?.[viewport],
+              ),
+              afterRegions: scaleComponentRegions(
+                after.componentRegions?.[viewport],
+              ),
+              ignoreRegions: scaleRegions(
+                [
+                  ...resolveMask(config.mask, before.url, viewport).regions,
+                  ...(before.maskedRegions?.[viewport] ?? []),
+                  ...(after.maskedRegions?.[viewport] ?? []),
+                ],
+                deviceScaleFactor,
+              ),
+              noiseMaskPath:
+                noise && path.join(config.projectFolder, noise.maskPath),
+              mode: config.diffMode,
+            },
+          ),
+        };
+      }
+
+      classifyComparison(comparison, config.thresholds);
+      comparisons.push(comparison);
+
+      // Show diff summary
+      const diffs = Object.entries(comparison.diff);
+      const changed = diffs.some(([, diff]) => diff.diffPercentage > 0);
+
+      if (changed) {
+        const width = Math.max(...diffs.map(([viewport]) => viewportLabel(viewport).length)) + 1;
+        for (const [viewport, diff] of diffs) {
+          const label = `${viewportLabel(viewport)}:`;
+          const noise = diff.noisePixels
+            ? `, ${diff.noisePixels.toLocaleString()} noise pixels ignored`
+            : "";
+          const shift = diff.shift
+            ? `, ${diff.shift.adjustedDiffPercentage.toFixed(2)}% without shifted content`
+            : "";
+          console.log(
+            `    ${label.padEnd(width)} ${diff.diffPixels.toLocaleString()} pixels changed (${diff.diffPercentage.toFixed(2)}%${noise}${shift}) [${diff.status?.toUpperCase()}]`,
+          );
+        }
+      } else if (diffs.length > 0) {
         console.log(`    No visual changes detected`);
       }
+
+      const componentChanges = new Set(
+        Object.values(comparison.components ?? {}).flatMap((components) =>
+          Object.entries(components)
+            .filter(([, component]) => component.status !== "unchanged")
+            .map(([name, component]) => `${name} ${component.status}`),
+        ),
+      );
+      if (componentChanges.size > 0) {
+        console.log(`    Components: ${[...componentChanges].join(", ")}`);
+      }
     } catch (error) {
       console.error(
         `    Error comparing ${before.slug}: ${error instanceof Error ? error.message : String(error)}`,
@@ -239,98 +530,279 @@ function generateDiffComparisons(config: ProjectConfig): ComparisonResult[] {
 }
 
 /**
- * Main application flow
+ * URL sources and selected post types of one site
  */
-async function main(): Promise<void> {
-  showBanner();
+interface SiteDiscovery {
+  siteUrl: string;
+  apiAccessible: boolean;
+  useSitemap: boolean;
+  /** Undefined if the REST API is not accessible */
+  selectedPostTypes?: WPPostType[];
+  selectedPageGroups: PageGroup[];
+  /** Languages to capture on multilingual sites */
+  multilingual?: MultilingualSite;
+  /** Store pages if the site runs WooCommerce */
+  woocommerce?: WooCommerceStore;
+}
 
-  try {
-    // Step 1: Get WordPress URL
-    const siteUrlInput = await input({
-      message: "Enter the WordPress website URL:",
-      validate: (value) => {
-        if (!value.trim()) return "Please enter a URL";
-        try {
-          new URL(value.startsWith("http") ? value : `https://${value}`);
-          return true;
-        } catch {
-          return "Please enter a valid URL";
-        }
-      },
-    });
+/**
+ * Check which URL sources a site offers and select its post types
+ * @param lenient - Skip configured post types the site doesn't have (multisite) instead of failing
+ */
+async function discoverSite(
+  siteUrl: string,
+  options: PixelPoliceConfig,
+  interactive: boolean,
+  lenient: boolean,
+): Promise<SiteDiscovery> {
+  const sources = options.urlSources;
+  let apiAccessible = false;
+
+  if (sources === undefined || sources.includes("rest")) {
+    console.log("\nChecking WordPress REST API access...");
+    apiAccessible = await checkApiAccess(siteUrl);
+  }
 
-    const siteUrl = normalizeUrl(siteUrlInput);
-    const domain = extractDomain(siteUrl);
+  // Without configured sources, sitemaps stand in for a blocked REST API
+  const useSitemap = sources ? sources.includes("sitemap") : !apiAccessible;
 
-    console.log(`\nTarget site: ${siteUrl}`);
+  if (apiAccessible) {
+    console.log("REST API is accessible!");
+  } else if (sources === undefined || sources.includes("rest")) {
+    console.log(
+      useSitemap
+        ? "REST API not accessible. Will discover URLs from sitemaps."
+        : "REST API not accessible. Will only screenshot homepage.",
+    );
+  }
 
-    // Enable SSL bypass for local development sites
-    enableSslBypassForLocalDev(siteUrl);
+  let selectedPostTypes: WPPostType[] | undefined;
+  let selectedPageGroups: PageGroup[] = [];
+  let woocommerce: WooCommerceStore | undefined;
 
-    // Step 2: Check API access
-    console.log("\nChecking WordPress REST API access...");
-    const apiAccessible = await checkApiAccess(siteUrl);
+  if (apiAccessible) {
+    console.log("\nFetching available post types...");
+    let { included } = await fetchPostTypesWithDetails(siteUrl);
+    let pageGroups = await fetchPageGroups(siteUrl, included);
+
+    // WooCommerce groups replace the generic product post type, archive and categories
+    woocommerce = await detectWooCommerce(siteUrl);
+    if (woocommerce) {
+      console.log(
+        `WooCommerce store found (shop: ${woocommerce.shopUrl}, cart: ${woocommerce.cartUrl ?? "not found"}, checkout: ${woocommerce.checkoutUrl ?? "not found"})`,
+      );
+      included = included.filter(
+        (pt) => !GENERIC_PRODUCT_SLUGS.includes(pt.slug),
+      );
+      pageGroups = [
+        ...pageGroups.filter(
+          (group) => !GENERIC_PRODUCT_SLUGS.includes(group.slug),
+        ),
+        ...WOOCOMMERCE_GROUPS,
+      ];
+    }
 
-    if (!apiAccessible) {
-      console.log("REST API not accessible. Will only screenshot homepage.");
+    let selection: UrlSelection;
+    if (options.postTypes !== undefined) {
+      const available = [...included, ...pageGroups].map((item) => item.slug);
+      const slugs = lenient
+        ? options.postTypes.filter((slug) => available.includes(slug))
+        : options.postTypes;
+      selection = pickPostTypes(included, pageGroups, slugs);
+    } else if (interactive) {
+      selection = await selectPostTypes(included, pageGroups);
     } else {
-      console.log("REST API is accessible!");
+      selection = { postTypes: included, pageGroups };
     }
+    selectedPostTypes = selection.postTypes;
+    selectedPageGroups = selection.pageGroups;
 
-    // Step 3: Fetch and select post types
-    let selectedPostTypes: WPPostType[] | undefined;
+    if (selectedPostTypes.length === 0 && selectedPageGroups.length === 0) {
+      console.log(
+        "\nNo post types selected. Will only screenshot homepage.",
+      );
+    } else {
+      console.log(
+        `\nSelected ${selectedPostTypes.length} post types: ${selectedPostTypes.map((pt) => pt.slug).join(", ") || "none"}`,
+      );
+      if (selectedPageGroups.length > 0) {
+        console.log(
+          `Selected other pages: ${selectedPageGroups.map((group) => group.slug).join(", ")}`,
+        );
+      }
+    }
+  } else if (options.postTypes !== undefined && !useSitemap) {
+    console.log("Ignoring configured post types (REST API not accessible).");
+  }
 
-    if (apiAccessible) {
-      console.log("\nFetching available post types...");
-      const { included } = await fetchPostTypesWithDetails(siteUrl);
+  let multilingual: MultilingualSite | undefined;
+  if (options.languages !== false) {
+    multilingual = await detectMultilingual(siteUrl);
+  }
+  if (multilingual) {
+    const detected = multilingual.languages;
+    const wanted = options.languages;
+    const languages = wanted
+      ? detected.filter((language) =>
+          wanted.some((code) => code.toLowerCase() === language),
+        )
+      : detected;
+    console.log(
+      `\nMultilingual site${multilingual.plugin ? ` (${multilingual.plugin === "wpml" ? "WPML" : "Polylang"})` : ""}: ${detected.join(", ")}`,
+    );
+    if (languages.length === 0) {
+      console.log("None of the configured languages found; capturing as a single-language site.");
+      multilingual = undefined;
+    } else {
+      multilingual = { ...multilingual, languages };
+      console.log(
+        multilingual.restFilter
+          ? `Sampling posts per language: ${languages.join(", ")}`
+          : `Adding translations from hreflang alternates: ${languages.join(", ")}`,
+      );
+    }
+  }
 
-      if (included.length > 0) {
-        selectedPostTypes = await selectPostTypes(included);
+  return {
+    siteUrl,
+    apiAccessible,
+    useSitemap,
+    selectedPostTypes,
+    selectedPageGroups,
+    multilingual,
+    woocommerce,
+  };
+}
 
-        if (selectedPostTypes.length === 0) {
-          console.log(
-            "\nNo post types selected. Will only screenshot homepage.",
-          );
-        } else {
-          console.log(
-            `\nSelected ${selectedPostTypes.length} post types: ${selectedPostTypes.map((pt) => pt.slug).join(", ")}`,
-          );
-        }
-      }
+/**
+ * Build the URL list of one site from its REST API and/or sitemaps
+ */
+async function buildSiteUrlList(
+  discovery: SiteDiscovery,
+  options: {
+    sitemapUrl?: string;
+    postTypes?: string[];
+    postsPerType: number;
+    sampling: ResolvedSampling;
+  },
+): Promise<UrlToScreenshot[]> {
+  const { siteUrl, apiAccessible, useSitemap, multilingual, woocommerce } =
+    discovery;
+  const urlLists: UrlToScreenshot[][] = [];
+
+  if (apiAccessible || !useSitemap) {
+    urlLists.push(
+      await buildUrlList(
+        siteUrl,
+        options.postsPerType,
+        discovery.selectedPostTypes,
+        options.sampling,
+        discovery.selectedPageGroups,
+        multilingual?.restFilter ? multilingual.languages : undefined,
+      ),
+    );
+  }
+  if (woocommerce) {
+    urlLists.push(
+      await buildWooCommerceUrls(
+        siteUrl,
+        woocommerce,
+        discovery.selectedPageGroups,
+        options.postsPerType,
+      ),
+    );
+  }
+  if (useSitemap) {
+    console.log("\nDiscovering URLs from sitemaps...");
+    urlLists.push(await buildSitemapUrlList(siteUrl, options));
+  }
+
+  // The REST API comes first, so its titles win for URLs found twice
+  const urls = mergeUrlLists(...urlLists);
+  if (urlLists.length > 1) {
+    console.log(`\nTotal URLs after combining sources: ${urls.length}`);
+  }
+
+  // Pages not sampled per language (homepage, sitemap URLs, other pages) get their translations
+  return multilingual
+    ? addTranslations(urls, multilingual.languages)
+    : urls;
+}
+
+/**
+ * Steps 1-6: resolve site, post types and cookie handling, build the URL list
+ */
+async function setupProject(
+  options: PixelPoliceConfig,
+  interactive: boolean,
+): Promise<ProjectConfig> {
+  // Step 1: Get WordPress URL
+  let siteUrlInput = options.siteUrl;
+  if (siteUrlInput === undefined) {
+    if (!interactive) throw missingOption("--url", "siteUrl");
+    siteUrlInput = await input({
+      message: "Enter the WordPress website URL:",
+      validate: validateSiteUrl,
+    });
+  }
+
+  const siteUrl = normalizeUrl(siteUrlInput);
+  const domain = extractDomain(siteUrl);
+
+  console.log(`\nTarget site: ${siteUrl}`);
+
+  // Enable SSL bypass for local development sites
+  enableSslBypassForLocalDev(siteUrl);
+
+  // Read up front, so a broken URL file fails before discovery
+  const extraUrls = [
+    ...(options.extraUrls ?? []),
+    ...(options.extraUrlFile ? loadUrlFile(options.extraUrlFile) : []),
+  ];
+
+  // Multisite: every subsite goes through discovery
+  const multisite =
+    options.multisite === true ? {} : options.multisite || undefined;
+  let sites = [siteUrl];
+  if (multisite) {
+    console.log("\nEnumerating network sites...");
+    sites = await discoverNetworkSites(siteUrl, multisite, options.sitemapUrl);
+    console.log(`Capturing ${sites.length} sites: ${sites.map(siteLabel).join(", ")}`);
+  }
+
+  // Steps 2-3: Check API access, select post types
+  const discoveries: SiteDiscovery[] = [];
+  for (const site of sites) {
+    if (multisite) {
+      console.log(`\n── ${siteLabel(site)} ──`);
     }
+    discoveries.push(
+      await discoverSite(site, options, interactive && !multisite, !!multisite),
+    );
+  }
+
+  // Step 4: Create project folder
+  const projectFolder = createProjectFolder(domain, options.outputFolder);
 
-    // Step 4: Create project folder
-    const projectFolder = createProjectFolder(domain);
+  // Step 5: Configure cookie handling
+  let cookieConfig: CookieConfig;
 
-    // Step 5: Configure cookie handling
+  if (options.cookie !== undefined) {
+    // --cookie-action alone leaves the mode unset
+    cookieConfig = { ...options.cookie, mode: options.cookie.mode ?? "auto" };
+  } else if (interactive) {
     console.log("");
-    console.log("We will try to click buttons with the following text if 'Auto-detect' is selected:");
-    console.log([
-        'Alle akzeptieren',
-        'Alles akzeptieren',
-        'Akzeptieren',
-        'Zustimmen',
-        'OK',
-        'Einverstanden',
-        'Verstanden',
-        'Alle Cookies akzeptieren',
-        'Accept',
-        'Accept All',
-        'Accept all cookies',
-        'Agree',
-        'I Agree',
-        'Allow',
-        'Allow all',
-        'Okay',
-        'Got it'
-      ].join(", "));
+    console.log(
+      "'Auto-detect' recognizes Borlabs Cookie, Complianz, Cookiebot, Real Cookie Banner, CookieYes, OneTrust and Usercentrics, and otherwise clicks buttons with the following text:",
+    );
+    console.log(COMMON_COOKIE_TEXTS.join(", "));
     console.log("");
 
     const cookieMode = await select({
       message: "How should we handle cookie banners?",
       choices: [
         {
-          name: "Auto-detect (Try common English/German buttons)",
+          name: "Auto-detect (Known consent platforms, then common English/German buttons)",
           value: "auto",
         },
         {
@@ -344,120 +816,428 @@ async function main(): Promise<void> {
       ],
     });
 
-    const cookieConfig: CookieConfig = {
+    cookieConfig = {
       mode: cookieMode as "auto" | "custom" | "none",
     };
+  } else {
+    cookieConfig = { mode: "auto" };
+  }
 
-    if (cookieMode === "custom") {
-      cookieConfig.customText = await input({
-        message: "Enter the exact text of the cookie banner button:",
-        validate: (value) => (value.trim() ? true : "Please enter the text"),
-      });
-    }
+  if (cookieConfig.mode === "custom" && cookieConfig.customText === undefined) {
+    if (!interactive) throw missingOption("--cookie-text", "cookie.customText");
+    cookieConfig.customText = await input({
+      message: "Enter the exact text of the cookie banner button:",
+      validate: validateCookieText,
+    });
+  }
+
+  // Step 6: Build URL list
+  const postsPerType = options.postsPerType ?? 5;
+  const sampling = resolveSampling(options.sampling);
 
-    // Step 6: Build URL list
-    console.log("\nFetching URLs to screenshot...");
-    const urls = await buildUrlList(siteUrl, 5, selectedPostTypes);
+  console.log("\nFetching URLs to screenshot...");
+  console.log(
+    `Sampling: ${sampling.strategy}, seed ${sampling.seed} (reproduce with --seed ${sampling.seed})`,
+  );
+  const discovered: UrlToScreenshot[] = [];
+  for (const discovery of discoveries) {
+    // A configured sitemap is the network sitemap; subsites discover their own
+    const siteUrls = await buildSiteUrlList(discovery, {
+      sitemapUrl: multisite ? undefined : options.sitemapUrl,
+      postTypes: options.postTypes,
+      postsPerType,
+      sampling,
+    });
+    discovered.push(
+      ...(multisite
+        ? siteUrls.map((url) => ({ ...url, site: siteLabel(discovery.siteUrl) }))
+        : siteUrls),
+    );
+  }
 
-    if (urls.length === 0) {
-      console.error("No URLs found to screenshot. Exiting.");
-      process.exit(1);
+  // Extra URLs are always captured; exclude patterns only apply to discovered URLs.
+  // They come first so their title and group win over a discovered entry for the same URL.
+  const extras = resolveExtraUrls(extraUrls, siteUrl).map((url) => {
+    const site = multisite ? findSite(url.url, sites) : undefined;
+    return site ? { ...url, site: siteLabel(site) } : url;
+  });
+  const urls = mergeUrlLists(extras, excludeUrls(discovered, options.exclude));
+  if (extras.length > 0) {
+    console.log(`\nAdded ${extras.length} extra URLs (${urls.length} URLs in total)`);
+  }
+
+  if (urls.length === 0) {
+    console.error("No URLs found to screenshot. Exiting.");
+    process.exit(1);
+  }
+
+  // Display URLs that will be captured
+  console.log("\nURLs to capture:");
+  for (const url of urls) {
+    console.log(
+      `  - ${url.site ? `${url.site} ` : ""}[${url.postType}${url.language ? `, ${url.language}` : ""}] ${url.title}`,
+    );
+  }
+
+  // Initialize project config
+  return {
+    siteUrl,
+    projectFolder,
+    cookieConfig,
+    viewports: resolveViewports(options.viewports),
+    browsers: options.browsers ?? DEFAULT_BROWSERS,
+    thresholds: options.thresholds,
+    mask: options.mask,
+    interactions: options.interactions,
+    components: options.components,
+    diffMode: options.diffMode,
+    noiseBaseline: options.noiseBaseline,
+    sampling,
+    postsPerType,
+    stabilize: resolveStabilize(options.stabilize),
+    sites: multisite ? sites.map(siteLabel) : undefined,
+    startTime: new Date(),
+    urls,
+    beforeScreenshots: [],
+    afterScreenshots: [],
+  };
+}
+
+/**
+ * Pages to give cookie consent on: the homepage, plus one per other host (multisite networks)
+ */
+function consentUrls(config: ProjectConfig): string[] {
+  const byOrigin = new Map([[new URL(config.siteUrl).origin, config.siteUrl]]);
+  for (const { url } of config.urls) {
+    const origin = new URL(url).origin;
+    if (!byOrigin.has(origin)) {
+      byOrigin.set(origin, `${origin}/`);
     }
+  }
+  return [...byOrigin.values()];
+}
+
+/**
+ * Take screenshots of all URLs for one phase and persist the results
+ */
+async function captureScreenshots(
+  config: ProjectConfig,
+  phase: "before" | "after",
+  options: PixelPoliceConfig,
+): Promise<void> {
+  // Record versions so the report can show what was updated
+  console.log("\nRecording site inventory...");
+  const inventory = await fetchInventory(config.siteUrl);
+  config.inventory = { ...config.inventory, [phase]: inventory };
+  console.log(`Inventory: ${describeInventory(inventory)}`);
+  if (phase === "after" && config.inventory.before) {
+    const changes = compareInventories(config.inventory.before, inventory);
+    console.log(`${changes.length} core, plugin and theme changes since the BEFORE phase.`);
+  }
 
-    // Display URLs that will be captured
-    console.log("\nURLs to capture:");
-    for (const url of urls) {
-      console.log(`  - [${url.postType}] ${url.title}`);
+  const screenshotManager = new ScreenshotManager(
+    config.projectFolder,
+    config.cookieConfig,
+    {
+      viewports: config.viewports,
+      browsers: config.browsers,
+      mask: config.mask,
+      interactions: config.interactions,
+      components: config.components,
+      stabilize: config.stabilize,
+      repeatCapture: phase === "before" && config.noiseBaseline,
+      concurrency: options.concurrency,
+      parallelViewports: options.parallelViewports,
+      maxRequestsPerSecond: options.maxRequestsPerSecond,
+      retries: options.retries,
+      retryDelayMs: options.retryDelayMs,
+      // Credentials come from the config file or flags of every run, never from run.json
+      login: resolveLogin(config.siteUrl, options.auth),
+      httpCredentials: options.auth?.httpBasic,
+      // The before phase's consent is reused, so both phases render with the same consent
+      consentUrls: consentUrls(config),
+      consent: config.consent,
+    },
+  );
+  await screenshotManager.init();
+  config.consent = screenshotManager.consent;
+
+  try {
+    const results = await screenshotManager.screenshotAll(config.urls, phase);
+    if (phase === "before") {
+      config.beforeScreenshots = results;
+      if (config.noiseBaseline) {
+        measureNoise(config);
+      }
+    } else {
+      config.afterScreenshots = results;
+      config.endTime = new Date();
     }
+  } finally {
+    await screenshotManager.close();
+  }
 
-    // Initialize project config
-    const config: ProjectConfig = {
-      siteUrl,
-      projectFolder,
-      cookieConfig,
-      startTime: new Date(),
-      urls,
-      beforeScreenshots: [],
-      afterScreenshots: [],
-    };
+  saveManifest(config);
+  saveReport(config);
+}
 
-    // Step 7: Take BEFORE screenshots
-    const screenshotManager = new ScreenshotManager(projectFolder, cookieConfig);
-    await screenshotManager.init();
+/**
+ * Generate diffs for a project, persist them and print a summary
+ * Sets a non-zero exit code if any comparison failed its thresholds.
+ */
+function compareProject(config: ProjectConfig): string {
+  if (config.afterScreenshots.length === 0) {
+    throw new Error(
+      `No AFTER screenshots in ${config.projectFolder}. Run the "after" phase first.`,
+    );
+  }
+
+  config.comparisons = generateDiffComparisons(config);
+  saveManifest(config);
 
-    config.beforeScreenshots = await screenshotManager.screenshotAll(
-      urls,
-      "before",
+  // Show summary of changes
+  const totalChanges = config.comparisons.reduce((acc, c) => {
+    return (
+      acc +
+      (Object.values(c.diff).some((diff) => diff.diffPixels > 0) ? 1 : 0)
     );
+  }, 0);
 
-    // Generate initial report (before only)
-    saveReport(config);
-
-    console.log("\n" + "═".repeat(60));
-    console.log("  BEFORE screenshots complete!");
-    console.log("═".repeat(60));
-    console.log("\n  You can now perform your WordPress update.");
-    console.log("  The current report is available at:");
-    console.log(`  ${path.join(projectFolder, "report.html")}`);
-    console.log("\n" + "═".repeat(60) + "\n");
-
-    // Step 8: Wait for user to complete update
-    const continueToAfter = await confirm({
-      message:
-        "Have you completed the WordPress update? Ready to take AFTER screenshots?",
-      default: true,
-    });
+  console.log(
+    `\n${totalChanges} of ${config.comparisons.length} pages have visual changes.`,
+  );
 
-    if (!continueToAfter) {
-      console.log(
-        "\nExiting. You can view the BEFORE screenshots in the report.",
-      );
-      await screenshotManager.close();
-      openInBrowser(path.join(projectFolder, "report.html"));
-      return;
-    }
+  const warned = config.comparisons.filter((c) => c.status === "warn");
+  const failed = config.comparisons.filter((c) => c.status === "fail");
+  console.log(
+    `Thresholds: ${config.comparisons.length - warned.length - failed.length} pass, ${warned.length} warn, ${failed.length} fail.`,
+  );
+  for (const comparison of failed) {
+    const engine =
+      config.browsers.length > 1 ? ` (${comparison.browser})` : "";
+    console.log(`  FAIL: [${comparison.postType}] ${comparison.url}${engine}`);
+  }
 
-    // Step 9: Take AFTER screenshots
-    config.afterScreenshots = await screenshotManager.screenshotAll(
-      urls,
-      "after",
+  const captureFailures = config.comparisons.filter(
+    (c) => (c.failedCaptures ?? []).length > 0,
+  );
+  if (captureFailures.length > 0) {
+    console.log(
+      `${captureFailures.length} pages could not be compared in every viewport because a capture failed.`,
     );
-    config.endTime = new Date();
+  }
 
-    // Close browser
-    await screenshotManager.close();
+  const unstable = config.beforeScreenshots.filter((before) =>
+    Object.values(before.noise ?? {}).some((noise) => noise.noisePixels > 0),
+  );
+  if (unstable.length > 0) {
+    console.log(
+      `${unstable.length} pages are unstable; their noise pixels were ignored.`,
+    );
+  }
 
-    // Step 10: Generate diff comparisons
-    config.comparisons = generateDiffComparisons(config);
+  if (failed.length > 0) {
+    process.exitCode = EXIT_CODE_THRESHOLD_FAILED;
+  }
 
-    // Show summary of changes
-    const totalChanges = config.comparisons.reduce((acc, c) => {
-      return (
-        acc +
-        (c.diff.desktop.diffPixels > 0 || c.diff.mobile.diffPixels > 0 ? 1 : 0)
-      );
-    }, 0);
+  // Generate final report
+  const reportPath = saveReport(config);
 
-    console.log(
-      `\n${totalChanges} of ${config.comparisons.length} pages have visual changes.`,
+  console.log("\n" + "═".repeat(60));
+  console.log("  Screenshot comparison complete!");
+  console.log("═".repeat(60));
+  console.log(`\n  Report: ${reportPath}`);
+  console.log(`  Before: ${config.beforeScreenshots.length} screenshots`);
+  console.log(`  After:  ${config.afterScreenshots.length} screenshots`);
+  console.log("\n" + "═".repeat(60) + "\n");
+
+  return reportPath;
+}
+
+/**
+ * Determine the project folder for the after/compare/report subcommands
+ */
+async function resolveProjectFolder(
+  args: CliArgs,
+  options: PixelPoliceConfig,
+  interactive: boolean,
+): Promise<string> {
+  if (args.projectFolder) {
+    return path.resolve(args.projectFolder);
+  }
+
+  if (!interactive) {
+    throw new Error(
+      "Missing required value: pass --project <folder> (running non-interactively)",
+    );
+  }
+
+  const folders = findProjectFolders(options.outputFolder);
+  if (folders.length === 0) {
+    throw new Error(
+      `No projects with ${MANIFEST_FILENAME} found in ${path.resolve(options.outputFolder ?? "output")}`,
+    );
+  }
+
+  return select({
+    message: "Select the project to continue:",
+    choices: folders.map((folder) => ({
+      name: path.basename(folder),
+      value: folder,
+    })),
+  });
+}
+
+/**
+ * Load a persisted project and prepare the environment for it
+ */
+function openProject(projectFolder: string): ProjectConfig {
+  const config = loadManifest(projectFolder);
+  console.log(`Project folder: ${config.projectFolder}`);
+  console.log(`Target site: ${config.siteUrl}`);
+  enableSslBypassForLocalDev(config.siteUrl);
+  return config;
+}
+
+/**
+ * Print how to continue a project in a later session
+ */
+function showResumeHint(projectFolder: string, command: "after" | "compare"): void {
+  console.log(`  Continue later with:`);
+  console.log(`  pixelpolice ${command} --project "${projectFolder}"`);
+}
+
+/**
+ * Main application flow
+ */
+async function main(): Promise<void> {
+  let args: CliArgs;
+  try {
+    args = parseCliArgs();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  showBanner();
+
+  try {
+    // Load config file and merge with flags (flags win)
+    const configPath = findConfigFile(args.configPath);
+    const options = mergeConfigs(
+      configPath ? loadConfigFile(configPath) : {},
+      args.config,
     );
+    validateConfig(options);
+    setApiAuth(options.auth);
+
+    // Only prompt for missing values when attached to a terminal
+    const interactive = !args.nonInteractive && process.stdin.isTTY === true;
+
+    let config: ProjectConfig;
+    let reportPath: string;
+
+    switch (args.command) {
+      case "before":
+        config = await setupProject(options, interactive);
+        await captureScreenshots(config, "before", options);
+        console.log("\n  BEFORE screenshots complete! You can now perform your WordPress update.");
+        showResumeHint(config.projectFolder, "after");
+        return;
+
+      case "after":
+        config = openProject(await resolveProjectFolder(args, options, interactive));
+        if (options.mask) {
+          config.mask = options.mask;
+        }
+        await captureScreenshots(config, "after", options);
+        console.log("\n  AFTER screenshots complete!");
+        showResumeHint(config.projectFolder, "compare");
+        return;
+
+      case "compare":
+        config = openProject(await resolveProjectFolder(args, options, interactive));
+        if (options.thresholds) {
+          config.thresholds = options.thresholds;
+        }
+        if (options.diffMode) {
+          config.diffMode = options.diffMode;
+        }
+        if (options.mask) {
+          config.mask = options.mask;
+        }
+        reportPath = compareProject(config);
+        break;
+
+      case "report":
+        reportPath = saveReport(
+          await resolveProjectFolder(args, options, interactive),
+        );
+        break;
+
+      default: {
+        config = await setupProject(options, interactive);
+
+        // Step 7: Take BEFORE screenshots
+        await captureScreenshots(config, "before", options);
+
+        console.log("\n" + "═".repeat(60));
+        console.log("  BEFORE screenshots complete!");
+        console.log("═".repeat(60));
+        console.log("\n  You can now perform your WordPress update.");
+        console.log("  The current report is available at:");
+        console.log(`  ${path.join(config.projectFolder, "report.html")}`);
+        console.log("");
+        showResumeHint(config.projectFolder, "after");
+        console.log("\n" + "═".repeat(60) + "\n");
+
+        // Step 8: Wait for user to complete update
+        if (!interactive) {
+          console.log(
+            "Running non-interactively: stopping after the BEFORE screenshots.",
+          );
+          if (options.openReport) {
+            openInBrowser(path.join(config.projectFolder, "report.html"));
+          }
+          return;
+        }
+
+        const continueToAfter = await confirm({
+          message:
+            "Have you completed the WordPress update? Ready to take AFTER screenshots?",
+          default: true,
+        });
 
-    // Step 11: Generate final report
-    const reportPath = saveReport(config);
+        if (!continueToAfter) {
+          console.log(
+            "\nExiting. You can view the BEFORE screenshots in the report.",
+          );
+          openInBrowser(path.join(config.projectFolder, "report.html"));
+          return;
+        }
 
-    console.log("\n" + "═".repeat(60));
-    console.log("  Screenshot comparison complete!");
-    console.log("═".repeat(60));
-    console.log(`\n  Report: ${reportPath}`);
-    console.log(`  Before: ${config.beforeScreenshots.length} screenshots`);
-    console.log(`  After:  ${config.afterScreenshots.length} screenshots`);
-    console.log("\n" + "═".repeat(60) + "\n");
+        // Step 9: Take AFTER screenshots
+        await captureScreenshots(config, "after", options);
+
+        // Step 10: Generate diff comparisons and final report
+        reportPath = compareProject(config);
+      }
+    }
 
     // Open report in browser
-    const openReport = await confirm({
-      message: "Open report in browser?",
-      default: true,
-    });
+    const openReport =
+      options.openReport ??
+      (interactive &&
+        (await confirm({
+          message: "Open report in browser?",
+          default: true,
+        })));
 
     if (openReport) {
       openInBrowser(reportPath);
@@ -0,0 +1,78 @@
+/**
+ * Interactions Module
+ * Runs configured steps (clicks, hovers, key presses, ...) on a page before capture
+ */
+
+import { Page } from 'playwright';
+import { InteractionRule, InteractionStep, UrlToScreenshot } from './types';
+import { matchesUrlPattern } from './patterns';
+
+/**
+ * Time a step may wait for its element
+ */
+const STEP_TIMEOUT_MS = 10000;
+
+/**
+ * Pause after each step for menus, tabs and modals to finish opening
+ */
+const STEP_SETTLE_MS = 500;
+
+/**
+ * Steps for a page: the steps of every matching rule, in order
+ */
+export function resolveInteractions(
+  rules: InteractionRule[] | undefined,
+  urlInfo: Pick<UrlToScreenshot, 'url' | 'postType'>
+): InteractionStep[] {
+  return (rules ?? [])
+    .filter(rule => rule.url === undefined || matchesUrlPattern(urlInfo.url, rule.url))
+    .filter(rule => rule.postType === undefined || rule.postType === urlInfo.postType)
+    .flatMap(rule => rule.steps);
+}
+
+/**
+ * Short description of a step for logs and errors ("click .menu-toggle")
+ */
+export function describeStep(step: InteractionStep): string {
+  return [step.action, step.selector, step.action === 'evaluate' ? undefined : step.value]
+    .filter((part): part is string => part !== undefined)
+    .join(' ');
+}
+
+/**
+ * Run one step and wait for the page to settle
+ */
+export async function runStep(page: Page, step: InteractionStep): Promise<void> {
+  const locator = step.selector !== undefined ? page.locator(step.selector).first() : undefined;
+  const timeout = STEP_TIMEOUT_MS;
+
+  switch (step.action) {
+    case 'click':
+      await locator!.click({ timeout });
+      break;
+    case 'hover':
+      await locator!.hover({ timeout });
+      break;
+    case 'fill':
+      await locator!.fill(step.value ?? '', { timeout });
+      break;
+    case 'waitFor':
+      await locator!.waitFor({ state: 'visible', timeout });
+      break;
+    case 'press':
+      if (locator) {
+        await locator.press(step.value!, { timeout });
+      } else {
+        await page.keyboard.press(step.value!);
+      }
+      break;
+    case 'scrollTo':
+      await locator!.scrollIntoViewIfNeeded({ timeout });
+      break;
+    case 'evaluate':
+      await page.evaluate(step.value!);
+      break;
+  }
+
+  await page.waitForTimeout(STEP_SETTLE_MS);
+}
@@ -0,0 +1,192 @@
+/**
+ * Inventory Module
+ * Records core, plugin and theme versions so the report can show what was updated
+ */
+
+import { InventoryChange, InventoryItem, SiteInventory } from './types';
+import { buildApiUrl, discoverApiRoot, normalizeUrl, requestHeaders } from './wordpress-api';
+
+/**
+ * Plugin as returned by /wp/v2/plugins
+ */
+interface WPPlugin {
+  plugin: string;
+  name: string;
+  version: string;
+  status: 'active' | 'inactive' | 'network-active';
+}
+
+/**
+ * Theme as returned by /wp/v2/themes
+ */
+interface WPTheme {
+  stylesheet: string;
+  name: string | { raw?: string; rendered?: string };
+  version: string;
+  status: 'active' | 'inactive';
+}
+
+/**
+ * Fetch a URL, undefined if unavailable
+ */
+async function fetchOk(url: string, accept?: string): Promise<Response | undefined> {
+  try {
+    const response = await fetch(url, { headers: requestHeaders(accept) });
+    return response.ok ? response : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the WordPress version from the REST API index, else from the generator meta tag,
+ * else from the RSS feed
+ * The index only has a version when the site adds one (rest_index filter), so the
+ * page markup remains the usual source.
+ */
+export async function fetchCoreVersion(siteUrl: string, apiRoot?: string): Promise<string | undefined> {
+  const normalizedUrl = normalizeUrl(siteUrl);
+
+  if (apiRoot) {
+    const index = await fetchOk(buildApiUrl(apiRoot, '', { _fields: 'version' }));
+    const body = index ? await index.json().catch(() => undefined) as { version?: unknown } | undefined : undefined;
+    if (typeof body?.version === 'string' && body.version.trim().length > 0) {
+      return body.version.trim();
+    }
+  }
+
+  const homepage = await fetchOk(`${normalizedUrl}/`, 'text/html,*/*');
+  const html = homepage ? await homepage.text() : '';
+  for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+    if (/name=["']generator["']/i.test(tag)) {
+      const version = tag.match(/content=["']WordPress\s+([^"']+)["']/i);
+      if (version) {
+        return version[1].trim();
+      }
+    }
+  }
+
+  // ?feed=rss2 works with and without pretty permalinks
+  const feed = await fetchOk(`${normalizedUrl}/?feed=rss2`, 'application/rss+xml,text/xml,*/*');
+  const generator = (feed ? await feed.text() : '').match(/<generator>[^<]*[?&]v=([^<&]+)<\/generator>/);
+  return generator?.[1].trim();
+}
+
+/**
+ * Fetch installed plugins (requires an Application Password of an administrator)
+ */
+export async function fetchPlugins(apiRoot: string): Promise<InventoryItem[] | undefined> {
+  const response = await fetchOk(buildApiUrl(apiRoot, 'wp/v2/plugins', { _fields: 'plugin,name,version,status' }));
+  if (!response) {
+    return undefined;
+  }
+
+  const plugins = await response.json() as WPPlugin[];
+  return plugins.map(plugin => ({
+    slug: plugin.plugin,
+    name: plugin.name,
+    version: plugin.version,
+    active: plugin.status !== 'inactive',
+  }));
+}
+
+/**
+ * Fetch installed themes (requires an Application Password of an administrator)
+ */
+export async function fetchThemes(apiRoot: string): Promise<InventoryItem[] | undefined> {
+  const response = await fetchOk(buildApiUrl(apiRoot, 'wp/v2/themes', { _fields: 'stylesheet,name,version,status' }));
+  if (!response) {
+    return undefined;
+  }
+
+  const themes = await response.json() as WPTheme[];
+  return themes.map(theme => ({
+    slug: theme.stylesheet,
+    name: typeof theme.name === 'string' ? theme.name : theme.name.raw ?? theme.name.rendered ?? theme.stylesheet,
+    version: theme.version,
+    active: theme.status === 'active',
+  }));
+}
+
+/**
+ * Record the site's current core, plugin and theme versions
+ * Parts the site doesn't expose are left undefined.
+ */
+export async function fetchInventory(siteUrl: string): Promise<SiteInventory> {
+  const apiRoot = await discoverApiRoot(siteUrl);
+
+  return {
+    capturedAt: new Date().toISOString(),
+    coreVersion: await fetchCoreVersion(siteUrl, apiRoot),
+    plugins: apiRoot ? await fetchPlugins(apiRoot) : undefined,
+    themes: apiRoot ? await fetchThemes(apiRoot) : undefined,
+  };
+}
+
+/**
+ * Summarize an inventory for the console ("WordPress 6.5, 12 plugins (9 active), 3 themes")
+ */
+export function describeInventory(inventory: SiteInventory): string {
+  const parts = [inventory.coreVersion ? `WordPress ${inventory.coreVersion}` : 'WordPress version hidden'];
+  if (inventory.plugins) {
+    const active = inventory.plugins.filter(plugin => plugin.active).length;
+    parts.push(`${inventory.plugins.length} plugin${inventory.plugins.length === 1 ? '' : 's'} (${active} active)`);
+  }
+  if (inventory.themes) {
+    parts.push(`${inventory.themes.length} theme${inventory.themes.length === 1 ? '' : 's'}`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Compare the plugins or themes of both phases
+ */
+function compareItems(
+  component: 'plugin' | 'theme',
+  before: InventoryItem[],
+  after: InventoryItem[]
+): InventoryChange[] {
+  const changes: InventoryChange[] = [];
+
+  for (const item of after) {
+    const previous = before.find(candidate => candidate.slug === item.slug);
+    if (!previous) {
+      changes.push({ component, name: item.name, kind: 'installed', to: item.version });
+      continue;
+    }
+    if (previous.version !== item.version) {
+      changes.push({ component, name: item.name, kind: 'updated', from: previous.version, to: item.version });
+    }
+    if (previous.active !== item.active) {
+      changes.push({ component, name: item.name, kind: item.active ? 'activated' : 'deactivated' });
+    }
+  }
+
+  for (const item of before) {
+    if (!after.some(candidate => candidate.slug === item.slug)) {
+      changes.push({ component, name: item.name, kind: 'removed', from: item.version });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * List what changed between the before and after inventories
+ * Parts missing in either phase are not compared.
+ */
+export function compareInventories(before: SiteInventory, after: SiteInventory): InventoryChange[] {
+  const changes: InventoryChange[] = [];
+
+  if (before.coreVersion && after.coreVersion && before.coreVersion !== after.coreVersion) {
+    changes.push({ component: 'core', name: 'WordPress', kind: 'updated', from: before.coreVersion, to: after.coreVersion });
+  }
+  if (before.plugins && after.plugins) {
+    changes.push(...compareItems('plugin', before.plugins, after.plugins));
+  }
+  if (before.themes && after.themes) {
+    changes.push(...compareItems('theme', before.themes, after.themes));
+  }
+
+  return changes;
+}
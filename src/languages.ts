@@ -0,0 +1,183 @@
+/**
+ * Languages Module
+ * Detects WPML and Polylang and finds the translations of pages via hreflang alternates
+ */
+
+import { MultilingualPlugin, MultilingualSite, UrlToScreenshot } from './types';
+import { buildApiUrl, discoverApiRoot, fetchApiNamespaces, normalizeUrl, requestHeaders, urlKey } from './wordpress-api';
+
+/**
+ * A translation of a page
+ */
+export interface Alternate {
+  language: string;
+  url: string;
+}
+
+/**
+ * Language as returned by Polylang Pro's /pll/v1/languages
+ */
+interface PLLLanguage {
+  slug: string;
+  is_default?: boolean;
+}
+
+/**
+ * Language code of an hreflang value ("de-DE" -> "de", "pt-br" -> "pt"), undefined for x-default
+ */
+export function languageCode(hreflang: string): string | undefined {
+  const code = hreflang.trim().toLowerCase();
+  if (!code || code === 'x-default') {
+    return undefined;
+  }
+  return code.split(/[-_]/)[0];
+}
+
+/**
+ * Read the hreflang alternates of a page (<link rel="alternate" hreflang="..." href="...">)
+ */
+export function parseAlternates(html: string, pageUrl: string): Alternate[] {
+  const alternates: Alternate[] = [];
+
+  for (const tag of html.match(/<link\b[^>]*>/gi) ?? []) {
+    if (!/rel=["']?alternate["'\s>]/i.test(tag)) {
+      continue;
+    }
+    const hreflang = tag.match(/hreflang=["']([^"']+)["']/i)?.[1];
+    const href = tag.match(/href=["']([^"']+)["']/i)?.[1];
+    const language = hreflang ? languageCode(hreflang) : undefined;
+    if (!language || !href) {
+      continue;
+    }
+    try {
+      const url = new URL(href.replace(/&amp;/g, '&'), pageUrl).toString();
+      if (!alternates.some(alternate => alternate.language === language)) {
+        alternates.push({ language, url });
+      }
+    } catch {
+      // Invalid href
+    }
+  }
+
+  return alternates;
+}
+
+/**
+ * Fetch a page's HTML, empty if unavailable
+ */
+async function fetchHtml(url: string): Promise<{ html: string; cookies: string }> {
+  try {
+    const response = await fetch(url, { headers: requestHeaders('text/html,*/*') });
+    return {
+      html: response.ok ? await response.text() : '',
+      cookies: response.headers.get('set-cookie') ?? '',
+    };
+  } catch {
+    return { html: '', cookies: '' };
+  }
+}
+
+/**
+ * Fetch the languages from Polylang Pro, default language first
+ */
+async function fetchPolylangLanguages(apiRoot: string): Promise<string[]> {
+  try {
+    const response = await fetch(buildApiUrl(apiRoot, 'pll/v1/languages'), { headers: requestHeaders() });
+    if (!response.ok) {
+      return [];
+    }
+    const languages = await response.json() as PLLLanguage[];
+    return [...languages]
+      .sort((a, b) => Number(b.is_default ?? false) - Number(a.is_default ?? false))
+      .map(language => language.slug);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Detect a multilingual site and its languages
+ * WPML is recognized by its generator tag or REST namespace, Polylang by its REST
+ * namespace or language cookie. Languages come from Polylang Pro's languages endpoint,
+ * else from the homepage's hreflang alternates (default language first).
+ * Returns undefined for single-language sites.
+ */
+export async function detectMultilingual(siteUrl: string): Promise<MultilingualSite | undefined> {
+  const normalizedUrl = normalizeUrl(siteUrl);
+  const apiRoot = await discoverApiRoot(siteUrl);
+  const namespaces = apiRoot ? await fetchApiNamespaces(apiRoot) : [];
+  const { html, cookies } = await fetchHtml(`${normalizedUrl}/`);
+
+  let plugin: MultilingualPlugin | undefined;
+  if (namespaces.some(namespace => namespace.startsWith('wpml/')) || /<meta[^>]+content=["']WPML\b/i.test(html)) {
+    plugin = 'wpml';
+  } else if (namespaces.includes('pll/v1') || cookies.includes('pll_language=')) {
+    plugin = 'polylang';
+  }
+
+  let languages = plugin === 'polylang' && apiRoot && namespaces.includes('pll/v1')
+    ? await fetchPolylangLanguages(apiRoot)
+    : [];
+
+  if (languages.length === 0) {
+    const alternates = parseAlternates(html, `${normalizedUrl}/`).map(alternate => alternate.language);
+    const htmlLang = html.match(/<html\b[^>]*\blang=["']([^"']+)["']/i)?.[1];
+    const defaultLanguage = htmlLang ? languageCode(htmlLang) : undefined;
+    languages = [...new Set([
+      ...(defaultLanguage && alternates.includes(defaultLanguage) ? [defaultLanguage] : []),
+      ...alternates,
+    ])];
+  }
+
+  if (languages.length < 2) {
+    return undefined;
+  }
+
+  return {
+    plugin,
+    languages,
+    // WPML filters REST queries by ?lang=, Polylang only with its REST integration (Pro)
+    restFilter: plugin === 'wpml' || (plugin === 'polylang' && namespaces.includes('pll/v1')),
+  };
+}
+
+/**
+ * Tag URLs with their language and add their translations
+ * Each page without a language is fetched once to read its hreflang alternates;
+ * pages without alternates are tagged with the default language.
+ */
+export async function addTranslations(
+  urls: UrlToScreenshot[],
+  languages: string[]
+): Promise<UrlToScreenshot[]> {
+  const result: UrlToScreenshot[] = [];
+  const seen = new Set(urls.map(url => urlKey(url.url)));
+  const [defaultLanguage] = languages;
+
+  for (const url of urls) {
+    if (url.language || url.expectedStatus !== undefined) {
+      result.push(url.language ? url : { ...url, language: defaultLanguage });
+      continue;
+    }
+
+    const { html } = await fetchHtml(url.url);
+    const alternates = parseAlternates(html, url.url).filter(alternate => languages.includes(alternate.language));
+    const own = alternates.find(alternate => urlKey(alternate.url) === urlKey(url.url));
+    result.push({ ...url, language: own?.language ?? defaultLanguage });
+
+    for (const alternate of alternates) {
+      if (alternate === own || seen.has(urlKey(alternate.url))) {
+        continue;
+      }
+      seen.add(urlKey(alternate.url));
+      result.push({ ...url, url: alternate.url, title: `${url.title} (${alternate.language})`, language: alternate.language });
+    }
+  }
+
+  const translations = result.length - urls.length;
+  if (translations > 0) {
+    console.log(`Added ${translations} translations from hreflang alternates`);
+  }
+
+  return result;
+}
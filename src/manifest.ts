@@ -0,0 +1,81 @@
+/**
+ * Run Manifest Module
+ * Persists the project state to run.json so phases can run in separate sessions
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectConfig, RunManifest } from './types';
+
+export const MANIFEST_FILENAME = 'run.json';
+export const MANIFEST_VERSION = 1;
+
+/**
+ * Path of the manifest inside a project folder
+ */
+export function manifestPath(projectFolder: string): string {
+  return path.join(projectFolder, MANIFEST_FILENAME);
+}
+
+/**
+ * Write the project state to run.json
+ * All screenshot and diff paths are stored relative to the project folder,
+ * so the folder can be moved or copied to another machine.
+ */
+export function saveManifest(config: ProjectConfig): string {
+  const { projectFolder, startTime, endTime, ...rest } = config;
+
+  const manifest: RunManifest = {
+    version: MANIFEST_VERSION,
+    ...rest,
+    startTime: startTime.toISOString(),
+    endTime: endTime?.toISOString(),
+  };
+
+  const filePath = manifestPath(projectFolder);
+  fs.writeFileSync(filePath, JSON.stringify(manifest, null, 2), 'utf-8');
+  return filePath;
+}
+
+/**
+ * Load the project state from a project folder's run.json
+ */
+export function loadManifest(projectFolder: string): ProjectConfig {
+  const folder = path.resolve(projectFolder);
+  const filePath = manifestPath(folder);
+
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`No ${MANIFEST_FILENAME} found in ${folder}. Run the "before" phase first.`);
+  }
+
+  const manifest: RunManifest = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`Unsupported ${MANIFEST_FILENAME} version ${manifest.version} (expected ${MANIFEST_VERSION})`);
+  }
+
+  const { version, startTime, endTime, ...rest } = manifest;
+
+  return {
+    ...rest,
+    projectFolder: folder,
+    startTime: new Date(startTime),
+    endTime: endTime ? new Date(endTime) : undefined,
+  };
+}
+
+/**
+ * Find project folders with a manifest below a base folder (newest first)
+ */
+export function findProjectFolders(baseFolder: string = 'output'): string[] {
+  const base = path.resolve(baseFolder);
+  if (!fs.existsSync(base)) {
+    return [];
+  }
+
+  return fs.readdirSync(base, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => path.join(base, entry.name))
+    .filter(folder => fs.existsSync(manifestPath(folder)))
+    .sort((a, b) => fs.statSync(manifestPath(b)).mtimeMs - fs.statSync(manifestPath(a)).mtimeMs);
+}
@@ -0,0 +1,64 @@
+/**
+ * Mask Module
+ * Resolves which elements to mask and which regions to ignore for a URL
+ */
+
+import { MaskConfig, Region, ViewportType } from './types';
+import { matchesUrlPattern } from './patterns';
+
+/**
+ * Color painted over masked elements and ignored regions
+ */
+export const MASK_COLOR = '#FF00FF';
+
+/**
+ * Resolved mask targets for one URL
+ */
+export interface ResolvedMask {
+  selectors: string[];
+  regions: Region[];
+}
+
+/**
+ * Collect site-wide and matching per-URL masks for a URL and viewport
+ */
+export function resolveMask(
+  config: MaskConfig | undefined,
+  url: string,
+  viewport: ViewportType
+): ResolvedMask {
+  const selectors: string[] = [];
+  const regions: Region[] = [];
+
+  if (!config) {
+    return { selectors, regions };
+  }
+
+  const targets = [config, ...(config.rules ?? []).filter(rule => matchesUrlPattern(url, rule.url))];
+
+  for (const target of targets) {
+    selectors.push(...(target.selectors ?? []));
+    for (const { viewport: regionViewport, ...region } of target.regions ?? []) {
+      if (regionViewport === undefined || regionViewport === viewport) {
+        regions.push(region);
+      }
+    }
+  }
+
+  return { selectors: [...new Set(selectors)], regions };
+}
+
+/**
+ * Scale regions from CSS pixels to screenshot pixels
+ */
+export function scaleRegions(regions: Region[], deviceScaleFactor: number): Region[] {
+  if (deviceScaleFactor === 1) {
+    return regions;
+  }
+  return regions.map(region => ({
+    x: region.x * deviceScaleFactor,
+    y: region.y * deviceScaleFactor,
+    width: region.width * deviceScaleFactor,
+    height: region.height * deviceScaleFactor,
+  }));
+}
@@ -0,0 +1,122 @@
+/**
+ * Multisite Module
+ * Enumerates the subsites of a WordPress multisite network
+ */
+
+import { MultisiteConfig } from './types';
+import { buildApiUrl, discoverApiRoot, normalizeUrl, requestHeaders } from './wordpress-api';
+import { discoverSitemaps, fetchSitemapIndex } from './sitemap';
+
+/**
+ * Site as returned by /wp/v2/sites (provided by multisite REST plugins, fields vary)
+ */
+interface WPSite {
+  url?: string;
+  link?: string;
+  siteurl?: string;
+  domain?: string;
+  path?: string;
+}
+
+/**
+ * Label of a site: host and path ("example.com/de")
+ */
+export function siteLabel(siteUrl: string): string {
+  const url = new URL(normalizeUrl(siteUrl));
+  return `${url.host}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+/**
+ * Find the site a URL belongs to: the site with the longest matching label
+ */
+export function findSite(url: string, sites: string[]): string | undefined {
+  const label = siteLabel(url);
+  return sites
+    .filter(site => label === siteLabel(site) || label.startsWith(`${siteLabel(site)}/`))
+    .sort((a, b) => siteLabel(b).length - siteLabel(a).length)[0];
+}
+
+/**
+ * Fetch subsites from /wp/v2/sites, undefined if the endpoint is unavailable
+ */
+export async function fetchSitesFromApi(siteUrl: string): Promise<string[] | undefined> {
+  const apiRoot = await discoverApiRoot(siteUrl);
+  if (!apiRoot) {
+    return undefined;
+  }
+
+  try {
+    const response = await fetch(buildApiUrl(apiRoot, 'wp/v2/sites', { per_page: 100 }), {
+      headers: requestHeaders(),
+    });
+    if (!response.ok) {
+      return undefined;
+    }
+
+    const protocol = new URL(normalizeUrl(siteUrl)).protocol;
+    const sites = await response.json() as WPSite[];
+    return sites
+      .map(site => site.url ?? site.link ?? site.siteurl ??
+        (site.domain ? `${protocol}//${site.domain}${site.path ?? '/'}` : undefined))
+      .filter((url): url is string => url !== undefined);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Derive subsites from a network sitemap: an index listing each subsite's own sitemaps
+ * The site of a sub-sitemap is the folder it lives in (example.com/de/wp-sitemap.xml -> example.com/de).
+ */
+export async function fetchSitesFromSitemap(siteUrl: string, sitemapUrl?: string): Promise<string[]> {
+  const roots = sitemapUrl ? [sitemapUrl] : await discoverSitemaps(siteUrl);
+  const sites: string[] = [];
+
+  for (const root of roots) {
+    for (const loc of await fetchSitemapIndex(root)) {
+      try {
+        const url = new URL(loc);
+        sites.push(`${url.origin}${url.pathname.replace(/[^/]*$/, '')}`);
+      } catch {
+        // Invalid <loc>
+      }
+    }
+  }
+
+  return sites;
+}
+
+/**
+ * Determine the sites of a network run, the main site first
+ * Uses the configured list, else /wp/v2/sites, else the network sitemap.
+ */
+export async function discoverNetworkSites(
+  siteUrl: string,
+  config: MultisiteConfig = {},
+  sitemapUrl?: string
+): Promise<string[]> {
+  let sites = config.sites;
+
+  if (sites === undefined) {
+    sites = await fetchSitesFromApi(siteUrl);
+    if (sites !== undefined) {
+      console.log(`Found ${sites.length} sites via /wp/v2/sites`);
+    }
+  }
+
+  if (sites === undefined) {
+    sites = await fetchSitesFromSitemap(siteUrl, sitemapUrl);
+    console.log(`Found ${new Set(sites.map(siteLabel)).size} sites in the network sitemap`);
+  }
+
+  // Unique by label, so http/https and trailing slashes don't duplicate a site
+  const byLabel = new Map<string, string>();
+  for (const site of [siteUrl, ...sites]) {
+    const normalized = normalizeUrl(site);
+    if (!byLabel.has(siteLabel(normalized))) {
+      byLabel.set(siteLabel(normalized), normalized);
+    }
+  }
+
+  return Array.from(byLabel.values());
+}
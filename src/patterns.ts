@@ -0,0 +1,75 @@
+/**
+ * URL Pattern Module
+ * Glob and regex matching for URL-scoped configuration
+ */
+
+/** Prefix of regular expression patterns ("regex:^https://example\.com/landing-\d+") */
+export const REGEX_PREFIX = 'regex:';
+
+/**
+ * Convert a glob to a regular expression
+ * `**` matches anything, `*` matches anything except `/`, `?` matches one character
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '.';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Check that a pattern can be used (regex patterns must compile)
+ * @returns true if valid, otherwise the error message
+ */
+export function validateUrlPattern(pattern: string): true | string {
+  if (!pattern.startsWith(REGEX_PREFIX)) {
+    return pattern.length > 0 ? true : 'Pattern must not be empty';
+  }
+  try {
+    new RegExp(pattern.slice(REGEX_PREFIX.length), 'i');
+    return true;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Check if a URL matches a glob or regex pattern
+ * Regex patterns (`regex:...`) are searched in the full URL, case-insensitive.
+ * Glob patterns starting with `/` are matched against the path (and query string),
+ * all others against the full URL. Trailing slashes are ignored.
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (pattern.startsWith(REGEX_PREFIX)) {
+    return new RegExp(pattern.slice(REGEX_PREFIX.length), 'i').test(url);
+  }
+
+  let target = url;
+
+  if (pattern.startsWith('/')) {
+    try {
+      const parsed = new URL(url);
+      target = parsed.pathname + parsed.search;
+    } catch {
+      return false;
+    }
+  }
+
+  const strip = (value: string) => value.length > 1 ? value.replace(/\/+$/, '') : value;
+  return globToRegExp(strip(pattern)).test(strip(target));
+}
@@ -5,7 +5,33 @@
 
 import * as fs from "fs";
 import * as path from "path";
-import { ProjectConfig, ScreenshotResult, ComparisonResult } from "./types";
+import {
+  ProjectConfig,
+  ScreenshotResult,
+  ComparisonResult,
+  DiffStatus,
+  CaptureOutcome,
+  Region,
+  ViewportConfig,
+  ViewportType,
+  BrowserEngine,
+  InventoryChangeKind,
+  SiteInventory,
+  ComponentDiff,
+  ComponentStatus,
+  DiffBand,
+  DiffResult,
+} from "./types";
+import { loadManifest } from "./manifest";
+import { worstStatus } from "./thresholds";
+import {
+  baseViewport,
+  captureKeys,
+  viewportLabel,
+  viewportSize,
+} from "./viewports";
+import { compareInventories, describeInventory } from "./inventory";
+import { describeConsent } from "./consent";
 
 /**
  * Group screenshots by post type
@@ -24,6 +50,84 @@ function groupByPostType(
   return grouped;
 }
 
+/**
+ * Group screenshots by subsite ("" for single sites), in capture order
+ */
+function groupBySite(
+  screenshots: ScreenshotResult[],
+): Map<string, ScreenshotResult[]> {
+  const grouped = new Map<string, ScreenshotResult[]>();
+
+  for (const screenshot of screenshots) {
+    const site = screenshot.site ?? "";
+    const existing = grouped.get(site) || [];
+    existing.push(screenshot);
+    grouped.set(site, existing);
+  }
+
+  return grouped;
+}
+
+/**
+ * Whether two results belong to the same page
+ */
+function samePage(
+  a: Pick<ScreenshotResult, "slug" | "postType" | "site" | "language">,
+  b: Pick<ScreenshotResult, "slug" | "postType" | "site" | "language">,
+): boolean {
+  return (
+    a.slug === b.slug &&
+    a.postType === b.postType &&
+    a.site === b.site &&
+    a.language === b.language
+  );
+}
+
+/**
+ * Element id part for a page or post type (unique across the subsites of a network)
+ */
+function siteScopedId(site: string | undefined, id: string): string {
+  return site ? `${site.replace(/[^a-z0-9]+/gi, "-")}-${id}` : id;
+}
+
+/**
+ * Element id part for a page (unique across subsites and translations)
+ */
+function pageId(
+  page: Pick<ScreenshotResult, "slug" | "postType" | "site" | "language">,
+): string {
+  const id = `${page.postType}-${page.slug}`;
+  return siteScopedId(page.site, page.language ? `${page.language}-${id}` : id);
+}
+
+/**
+ * Generate the language filter (multilingual sites only)
+ */
+function generateLanguageFilter(pages: ScreenshotResult[]): string {
+  const languages = [
+    ...new Set(
+      pages
+        .map((page) => page.language)
+        .filter((language) => language !== undefined),
+    ),
+  ];
+  if (languages.length < 2) {
+    return "";
+  }
+
+  return `
+      <div class="language-filter">
+        <span class="language-filter-label">Language</span>
+        <button class="language-btn active" data-language="">All</button>
+        ${languages
+          .map(
+            (language) =>
+              `<button class="language-btn" data-language="${escapeHtml(language)}">${escapeHtml(language.toUpperCase())}</button>`,
+          )
+          .join("")}
+      </div>`;
+}
+
 /**
  * Format date for display
  */
@@ -57,117 +161,408 @@ function formatDuration(start: Date, end: Date): string {
 }
 
 /**
- * Generate HTML for a single comparison card
+ * Failed capture outcome of a result for a viewport (undefined if captured or not attempted)
  */
-function generateComparisonCard(
+function failedCapture(
+  result: ScreenshotResult | undefined,
+  viewport: ViewportType,
+): CaptureOutcome | undefined {
+  // Interaction screenshots fail with their viewport
+  const outcome = result?.captures?.[baseViewport(viewport)];
+  return outcome && outcome.status !== "ok" ? outcome : undefined;
+}
+
+/**
+ * Whether any viewport of a before/after pair failed to capture
+ */
+function hasFailedCapture(
   before: ScreenshotResult,
   after: ScreenshotResult | undefined,
-  cardId: string,
+): boolean {
+  const viewports = new Set([
+    ...Object.keys(before.captures ?? {}),
+    ...Object.keys(after?.captures ?? {}),
+  ]);
+  return [...viewports].some(
+    (viewport) =>
+      failedCapture(before, viewport) || failedCapture(after, viewport),
+  );
+}
+
+/**
+ * Generate the placeholder for a failed capture
+ */
+function generateFailedCapture(
+  phaseLabel: string,
+  outcome: CaptureOutcome,
+): string {
+  const attempts =
+    outcome.attempts > 1 ? ` after ${outcome.attempts} attempts` : "";
+  return `
+        <div class="image-wrapper failed">
+          <span class="label">${phaseLabel}</span>
+          <div class="failed-msg">
+            <strong>Capture failed: ${outcome.status}${attempts}</strong>
+            <span>${escapeHtml(outcome.error ?? "")}</span>
+          </div>
+        </div>`;
+}
+
+/**
+ * Generate the placeholder for a screenshot one phase doesn't have
+ * (an interaction state that only ran in the other phase)
+ */
+function generateMissingCapture(phaseLabel: string): string {
+  return `
+        <div class="image-wrapper failed">
+          <span class="label">${phaseLabel}</span>
+          <div class="failed-msg">
+            <strong>Not captured</strong>
+            <span>No screenshot of this state in the ${phaseLabel.toLowerCase()} phase</span>
+          </div>
+        </div>`;
+}
+
+/**
+ * Whether a page rendered differently between its two before captures
+ */
+function isUnstable(result: ScreenshotResult): boolean {
+  return Object.values(result.noise ?? {}).some(
+    (noise) => noise.noisePixels > 0,
+  );
+}
+
+/**
+ * Whether a comparison has any changed pixels in any viewport
+ */
+function comparisonHasChanges(comparison: ComparisonResult): boolean {
+  return Object.values(comparison.diff).some(
+    (diff) => diff !== undefined && diff.diffPixels > 0,
+  );
+}
+
+/**
+ * Generate outline boxes for regions, positioned relative to the image size
+ */
+function renderRegionOverlays(
+  regions: Region[] | undefined,
+  dimensions: { width: number; height: number } | undefined,
+): string {
+  if (!regions || regions.length === 0 || !dimensions) {
+    return "";
+  }
+
+  const percent = (value: number, total: number) =>
+    `${((value / total) * 100).toFixed(3)}%`;
+
+  return regions
+    .map(
+      (region) =>
+        `<div class="masked-region" style="left:${percent(region.x, dimensions.width)};top:${percent(region.y, dimensions.height)};width:${percent(region.width, dimensions.width)};height:${percent(region.height, dimensions.height)}"></div>`,
+    )
+    .join("");
+}
+
+/**
+ * Generate full-width boxes for the aligned bands of one phase (shift diff mode)
+ */
+function renderBandOverlays(
+  bands: DiffBand[] | undefined,
+  phase: "before" | "after",
+  dimensions: { width: number; height: number } | undefined,
+): string {
+  if (!bands || !dimensions) {
+    return "";
+  }
+
+  return bands
+    .map((band) => {
+      const y = phase === "before" ? band.beforeY : band.afterY;
+      const height = phase === "before" ? band.beforeHeight : band.afterHeight;
+      return height > 0
+        ? `<div class="diff-band ${band.kind}" title="${band.kind}: ${height}px" style="top:${((y / dimensions.height) * 100).toFixed(3)}%;height:${((height / dimensions.height) * 100).toFixed(3)}%"></div>`
+        : "";
+    })
+    .join("");
+}
+
+/**
+ * Describe the aligned bands of a diff ("1 inserted, 1 modified band; 220 rows moved")
+ */
+function describeShift(diff: DiffResult): string {
+  const { shift } = diff;
+  if (!shift) {
+    return "";
+  }
+
+  const counts = (["inserted", "removed", "modified"] as const)
+    .map((kind) => ({
+      kind,
+      count: shift.bands.filter((band) => band.kind === kind).length,
+    }))
+    .filter(({ count }) => count > 0)
+    .map(({ kind, count }) => `${count} ${kind}`);
+  const bands =
+    counts.length > 0
+      ? `${counts.join(", ")} band${shift.bands.length === 1 ? "" : "s"} (outlined)`
+      : "No changed bands";
+  const moved =
+    shift.shiftedRows > 0 ? `; ${shift.shiftedRows.toLocaleString()} rows moved` : "";
+  return `<div class="shift-note">${bands}${moved}; ${shift.adjustedDiffPixels.toLocaleString()} px (${shift.adjustedDiffPercentage.toFixed(2)}%) changed without shifted content</div>`;
+}
+
+/**
+ * Generate HTML for the before/after/diff images of one viewport
+ */
+function generateViewportContainer(
+  before: ScreenshotResult,
+  after: ScreenshotResult | undefined,
+  viewport: ViewportType,
+  hidden: boolean,
   comparison?: ComparisonResult,
 ): string {
-  const hasAfter = !!after;
-  const hasDiff = !!comparison;
-
-  // Diff statistics
-  const desktopDiffStats = comparison
-    ? formatDiffStats(
-        comparison.diff.desktop.diffPixels,
-        comparison.diff.desktop.diffPercentage,
-      )
-    : "";
-  const mobileDiffStats = comparison
-    ? formatDiffStats(
-        comparison.diff.mobile.diffPixels,
-        comparison.diff.mobile.diffPercentage,
-      )
-    : "";
+  const label = viewportLabel(viewport);
+  const beforePath = before.screenshots[viewport];
+  const afterPath = after?.screenshots[viewport];
+  const diff = comparison?.diff[viewport];
+
+  // Masked/ignored regions can only be outlined once image sizes are known
+  const regions = diff?.ignoredRegions;
+  const maskedCount =
+    regions?.length ?? before.maskedRegions?.[viewport]?.length ?? 0;
+  const diffDimensions = diff && {
+    width: Math.max(diff.beforeDimensions.width, diff.afterDimensions.width),
+    height: Math.max(diff.beforeDimensions.height, diff.afterDimensions.height),
+  };
 
-  // Determine if there are changes
-  const hasDesktopChanges =
-    comparison && comparison.diff.desktop.diffPixels > 0;
-  const hasMobileChanges = comparison && comparison.diff.mobile.diffPixels > 0;
-  const hasAnyChanges = hasDesktopChanges || hasMobileChanges;
+  const beforeFailure = failedCapture(before, viewport);
+  const afterFailure = failedCapture(after, viewport);
+  const noise = before.noise?.[viewport];
 
   return `
-    <div class="comparison-card ${hasAnyChanges ? "has-changes" : "no-changes"}" id="card-${cardId}">
-      <div class="card-header">
-        <div class="card-title-row">
-          <h3>${escapeHtml(before.title)}</h3>
-          ${hasDiff ? `<span class="change-indicator ${hasAnyChanges ? "changed" : "unchanged"}">${hasAnyChanges ? "Changed" : "No Changes"}</span>` : ""}
-        </div>
-        <a href="${escapeHtml(before.url)}" target="_blank" class="url-link">${escapeHtml(before.url)}</a>
-      </div>
-      
-      <div class="viewport-tabs">
-        <button class="tab-btn active" data-viewport="desktop">
-          Desktop
-          ${hasDiff ? `<span class="tab-diff-indicator ${hasDesktopChanges ? "has-diff" : ""}">${desktopDiffStats}</span>` : ""}
-        </button>
-        <button class="tab-btn" data-viewport="mobile">
-          Mobile
-          ${hasDiff ? `<span class="tab-diff-indicator ${hasMobileChanges ? "has-diff" : ""}">${mobileDiffStats}</span>` : ""}
-        </button>
-      </div>
-      
-      <div class="comparison-container ${hasDiff ? "three-col" : ""}" data-viewport="desktop">
+      <div class="comparison-container ${hidden ? "hidden" : ""} ${diff ? "three-col" : ""}" data-viewport="${viewport}">
+        ${
+          beforeFailure
+            ? generateFailedCapture("Before", beforeFailure)
+            : !beforePath
+            ? generateMissingCapture("Before")
+            : `
         <div class="image-wrapper before">
           <span class="label">Before</span>
-          <img src="${before.desktopPath}" alt="Before - Desktop" loading="lazy" onclick="openLightbox(this.src)">
-        </div>
+          <img src="${beforePath}" alt="Before - ${label}" loading="lazy" onclick="openLightbox(this.src)">
+          ${renderRegionOverlays(regions, diff?.beforeDimensions)}
+          ${renderBandOverlays(diff?.shift?.bands, "before", diff?.beforeDimensions)}
+        </div>`
+        }
         ${
-          hasAfter
+          afterFailure
+            ? generateFailedCapture("After", afterFailure)
+            : afterPath
             ? `
         <div class="image-wrapper after">
           <span class="label">After</span>
-          <img src="${after.desktopPath}" alt="After - Desktop" loading="lazy" onclick="openLightbox(this.src)">
+          <img src="${afterPath}" alt="After - ${label}" loading="lazy" onclick="openLightbox(this.src)">
+          ${renderRegionOverlays(regions, diff?.afterDimensions)}
+          ${renderBandOverlays(diff?.shift?.bands, "after", diff?.afterDimensions)}
         </div>
         `
+            : after
+            ? generateMissingCapture("After")
             : '<div class="image-wrapper pending"><span class="label">After</span><div class="pending-msg">Pending...</div></div>'
         }
         ${
-          hasDiff
+          diff
             ? `
         <div class="image-wrapper diff">
           <span class="label">Diff</span>
-          <img src="${comparison.diff.desktop.diffPath}" alt="Diff - Desktop" loading="lazy" onclick="openLightbox(this.src)">
-          <div class="diff-stats">${comparison.diff.desktop.diffPixels.toLocaleString()} px (${comparison.diff.desktop.diffPercentage.toFixed(2)}%)</div>
+          <img src="${diff.diffPath}" alt="Diff - ${label}" loading="lazy" onclick="openLightbox(this.src)">
+          ${renderRegionOverlays(regions, diffDimensions)}
+          <div class="diff-stats">${diff.diffPixels.toLocaleString()} px (${diff.diffPercentage.toFixed(2)}%)</div>
         </div>
         `
             : ""
         }
-      </div>
-      
-      <div class="comparison-container hidden ${hasDiff ? "three-col" : ""}" data-viewport="mobile">
-        <div class="image-wrapper before">
-          <span class="label">Before</span>
-          <img src="${before.mobilePath}" alt="Before - Mobile" loading="lazy" onclick="openLightbox(this.src)">
-        </div>
-        ${
-          hasAfter
-            ? `
-        <div class="image-wrapper after">
-          <span class="label">After</span>
-          <img src="${after.mobilePath}" alt="After - Mobile" loading="lazy" onclick="openLightbox(this.src)">
+        ${diff ? describeShift(diff) : ""}
+        ${noise && noise.noisePixels > 0 ? `<div class="unstable-note">Unstable: ${noise.noisePercentage.toFixed(2)}% of pixels change between two loads of the unchanged page${diff?.noisePixels ? `; ${diff.noisePixels.toLocaleString()} changed pixels ignored as noise` : ""}</div>` : ""}
+        ${maskedCount > 0 ? `<div class="masked-note">${maskedCount} masked/ignored region${maskedCount === 1 ? "" : "s"} not compared${regions ? " (outlined)" : ""}</div>` : ""}
+      </div>`;
+}
+
+/**
+ * Display names of the browser engines
+ */
+const BROWSER_LABELS: Record<BrowserEngine, string> = {
+  chromium: "Chromium",
+  firefox: "Firefox",
+  webkit: "WebKit (Safari)",
+};
+
+/**
+ * Screenshots and comparison of one page with one browser engine
+ */
+interface EngineCapture {
+  browser: BrowserEngine;
+  before: ScreenshotResult;
+  after?: ScreenshotResult;
+  comparison?: ComparisonResult;
+}
+
+/**
+ * Tab of a viewport or an interaction screenshot taken at it
+ */
+interface CaptureTab {
+  key: ViewportType;
+  config: ViewportConfig;
+}
+
+/**
+ * Generate the viewport tabs and images of one browser engine
+ */
+function generateEnginePanel(
+  capture: EngineCapture,
+  captureTabs: CaptureTab[],
+  hidden: boolean,
+): string {
+  const { before, after, comparison } = capture;
+
+  const tabs = captureTabs
+    .map(({ key: viewport, config }, index) => {
+      const diff = comparison?.diff[viewport];
+      const failed =
+        failedCapture(before, viewport) || failedCapture(after, viewport);
+      const noisy = (before.noise?.[viewport]?.noisePixels ?? 0) > 0;
+      return `
+        <button class="tab-btn ${index === 0 ? "active" : ""}" data-viewport="${viewport}" title="${viewportSize(config)}">
+          ${viewportLabel(viewport)}
+          ${failed ? '<span class="tab-diff-indicator capture-failed">Failed</span>' : ""}
+          ${noisy ? '<span class="tab-diff-indicator unstable">Unstable</span>' : ""}
+          ${diff ? `<span class="tab-diff-indicator ${diff.diffPixels > 0 ? "has-diff" : ""} ${diff.status ? `status-${diff.status}` : ""}">${diff.shift ? formatDiffStats(diff.shift.adjustedDiffPixels, diff.shift.adjustedDiffPercentage) : formatDiffStats(diff.diffPixels, diff.diffPercentage)}</span>` : ""}
+        </button>`;
+    })
+    .join("");
+
+  const containers = captureTabs
+    .map(({ key }, index) =>
+      generateViewportContainer(before, after, key, index > 0, comparison),
+    )
+    .join("\n");
+
+  return `
+      <div class="engine-panel ${hidden ? "hidden" : ""}" data-browser="${capture.browser}">
+        <div class="viewport-tabs">
+          ${tabs}
         </div>
-        `
-            : '<div class="image-wrapper pending"><span class="label">After</span><div class="pending-msg">Pending...</div></div>'
-        }
-        ${
-          hasDiff
-            ? `
-        <div class="image-wrapper diff">
-          <span class="label">Diff</span>
-          <img src="${comparison.diff.mobile.diffPath}" alt="Diff - Mobile" loading="lazy" onclick="openLightbox(this.src)">
-          <div class="diff-stats">${comparison.diff.mobile.diffPixels.toLocaleString()} px (${comparison.diff.mobile.diffPercentage.toFixed(2)}%)</div>
+        ${containers}
+      </div>`;
+}
+
+/**
+ * Generate HTML for a single comparison card (one page, all engines)
+ */
+function generateComparisonCard(
+  engines: EngineCapture[],
+  cardId: string,
+  viewportConfigs: ViewportConfig[],
+): string {
+  const { before } = engines[0];
+  const comparisons = engines
+    .map((engine) => engine.comparison)
+    .filter((comparison) => comparison !== undefined);
+  const hasDiff = comparisons.length > 0;
+  const hasAnyChanges = comparisons.some(comparisonHasChanges);
+  const captureFailed = engines.some((engine) =>
+    hasFailedCapture(engine.before, engine.after),
+  );
+  const unstable = engines.some((engine) => isUnstable(engine.before));
+  const statuses = comparisons
+    .map((comparison) => comparison.status)
+    .filter((status) => status !== undefined);
+  const status = statuses.length > 0 ? statuses.reduce(worstStatus) : undefined;
+
+  // Only show tabs for viewports that were captured or attempted,
+  // each followed by its interaction screenshots
+  const tabs = viewportConfigs
+    .filter(({ name }) =>
+      engines.some(
+        (engine) =>
+          engine.before.screenshots[name] !== undefined ||
+          engine.before.captures?.[name] !== undefined,
+      ),
+    )
+    .flatMap((config) =>
+      captureKeys(
+        config.name,
+        ...engines.flatMap((engine) => [
+          engine.before.screenshots,
+          engine.after?.screenshots,
+        ]),
+      ).map((key) => ({ key, config })),
+    );
+
+  // Engine switcher, only when captured with more than one engine
+  const engineTabs =
+    engines.length > 1
+      ? `
+      <div class="engine-tabs">
+        ${engines
+          .map(({ browser, comparison, before: engineBefore, after }, index) => {
+            const failed = hasFailedCapture(engineBefore, after);
+            return `
+          <button class="engine-btn ${index === 0 ? "active" : ""}" data-browser="${browser}">
+            ${BROWSER_LABELS[browser]}
+            ${failed ? '<span class="tab-diff-indicator capture-failed">Failed</span>' : ""}
+            ${comparison?.status ? formatStatusBadge(comparison.status) : ""}
+          </button>`;
+          })
+          .join("")}
+      </div>`
+      : "";
+
+  const panels = engines
+    .map((engine, index) => generateEnginePanel(engine, tabs, index > 0))
+    .join("\n");
+
+  return `
+    <div class="comparison-card ${hasAnyChanges ? "has-changes" : "no-changes"} ${status ? `status-${status}` : ""} ${captureFailed ? "capture-failed" : ""}" id="card-${cardId}"${before.language ? ` data-language="${escapeHtml(before.language)}"` : ""}>
+      <div class="card-header">
+        <div class="card-title-row">
+          <h3>${escapeHtml(before.title)}</h3>
+          ${before.language ? `<span class="language-badge">${escapeHtml(before.language.toUpperCase())}</span>` : ""}
+          ${captureFailed ? '<span class="change-indicator capture-failed">Capture Failed</span>' : ""}
+          ${unstable ? '<span class="change-indicator unstable" title="Renders differently on every load; noisy pixels are ignored">Unstable</span>' : ""}
+          ${hasDiff ? `<span class="change-indicator ${hasAnyChanges ? "changed" : "unchanged"}">${hasAnyChanges ? "Changed" : "No Changes"}</span>` : ""}
+          ${status ? formatStatusBadge(status) : ""}
         </div>
-        `
-            : ""
-        }
+        <a href="${escapeHtml(before.url)}" target="_blank" class="url-link">${escapeHtml(before.url)}</a>
+        ${formatConsent(before, engines[0].after)}
       </div>
+      ${engineTabs}
+      ${panels}
     </div>
   `;
 }
 
+/**
+ * Describe the cookie banner handling of a page (its first viewport), noting the after phase if it differs
+ */
+function formatConsent(before: ScreenshotResult, after?: ScreenshotResult): string {
+  const describe = (result?: ScreenshotResult) => {
+    const [outcome] = Object.values(result?.consent ?? {});
+    return outcome ? describeConsent(outcome) : undefined;
+  };
+  const beforeText = describe(before);
+  const afterText = describe(after);
+  if (!beforeText && !afterText) {
+    return "";
+  }
+
+  const changed = afterText !== undefined && afterText !== beforeText;
+  const text = changed
+    ? `${beforeText ?? "not recorded"} (after: ${afterText})`
+    : (beforeText ?? afterText);
+  return `<div class="consent-info ${changed ? "consent-changed" : ""}">Cookie banner: ${escapeHtml(text ?? "")}</div>`;
+}
+
 /**
  * Format diff statistics for display
  */
@@ -178,6 +573,13 @@ function formatDiffStats(pixels: number, percentage: number): string {
   return `${percentage.toFixed(1)}%`;
 }
 
+/**
+ * Format a threshold status badge
+ */
+function formatStatusBadge(status: DiffStatus): string {
+  return `<span class="threshold-status ${status}">${status.toUpperCase()}</span>`;
+}
+
 /**
  * Escape HTML special characters
  */
@@ -192,6 +594,192 @@ function escapeHtml(text: string): string {
   return text.replace(/[&<>"']/g, (char) => map[char] || char);
 }
 
+/**
+ * Display names of the inventory change kinds
+ */
+const CHANGE_LABELS: Record<InventoryChangeKind, string> = {
+  updated: "Updated",
+  installed: "Installed",
+  removed: "Removed",
+  activated: "Activated",
+  deactivated: "Deactivated",
+};
+
+/**
+ * Generate the "What was updated" section from the recorded inventories
+ */
+function generateInventorySection(inventory: {
+  before?: SiteInventory;
+  after?: SiteInventory;
+}): string {
+  const { before, after } = inventory;
+  if (!before) {
+    return "";
+  }
+
+  let body: string;
+  if (!after) {
+    body = `<p class="updates-summary">Recorded before the update: ${escapeHtml(describeInventory(before))}. Changes are listed once the AFTER screenshots are taken.</p>`;
+  } else {
+    const changes = compareInventories(before, after);
+    const rows = changes
+      .map(
+        (change) => `
+            <tr>
+              <td>${change.component === "core" ? "Core" : change.component === "plugin" ? "Plugin" : "Theme"}</td>
+              <td>${escapeHtml(change.name)}</td>
+              <td><span class="update-kind ${change.kind}">${CHANGE_LABELS[change.kind]}</span></td>
+              <td>${escapeHtml([change.from, change.to].filter(Boolean).join(" → "))}</td>
+            </tr>`,
+      )
+      .join("");
+
+    body = `
+        <p class="updates-summary">Before: ${escapeHtml(describeInventory(before))}<br>After: ${escapeHtml(describeInventory(after))}</p>
+        ${
+          changes.length > 0
+            ? `<table class="updates-table">
+          <thead><tr><th>Component</th><th>Name</th><th>Change</th><th>Version</th></tr></thead>
+          <tbody>${rows}
+          </tbody>
+        </table>`
+            : `<p>No core, plugin or theme changes detected.</p>`
+        }`;
+  }
+
+  const missing = !before.plugins || !before.themes || (after && (!after.plugins || !after.themes));
+
+  return `
+      <section id="section-updates" class="post-type-section">
+        <h2>What was updated</h2>
+        <div class="updates-card">
+          ${body}
+          ${missing ? `<p class="updates-note">Plugin and theme versions need an Application Password of an administrator (auth.applicationPassword).</p>` : ""}
+        </div>
+      </section>
+    `;
+}
+
+/**
+ * Component statuses from most to least severe (a page shows its most severe one)
+ */
+const COMPONENT_STATUS_ORDER: ComponentStatus[] = [
+  "failed",
+  "removed",
+  "added",
+  "changed",
+  "unchanged",
+];
+
+/**
+ * Component diffs of a page across engines and viewports, labelled "Desktop" or "Desktop [webkit]"
+ */
+function pageComponentDiffs(
+  comparisons: ComparisonResult[],
+  name: string,
+  multipleBrowsers: boolean,
+): { label: string; component: ComponentDiff }[] {
+  return comparisons.flatMap((comparison) =>
+    Object.entries(comparison.components ?? {})
+      .filter(([, components]) => components[name] !== undefined)
+      .map(([viewport, components]) => ({
+        label: `${viewportLabel(viewport)}${multipleBrowsers ? ` [${comparison.browser}]` : ""}`,
+        component: components[name],
+      })),
+  );
+}
+
+/**
+ * Generate the component matrix: one row per page, one column per component
+ */
+function generateComponentMatrix(
+  pages: ScreenshotResult[],
+  comparisons: ComparisonResult[],
+  names: string[],
+  multipleBrowsers: boolean,
+): string {
+  if (names.length === 0 || !comparisons.some((c) => c.components)) {
+    return "";
+  }
+
+  const rows = pages
+    .map((page) => {
+      const pageComparisons = comparisons.filter((c) => samePage(c, page));
+      const cells = names.map((name) => {
+        const diffs = pageComponentDiffs(pageComparisons, name, multipleBrowsers);
+        const status = COMPONENT_STATUS_ORDER.find((candidate) =>
+          diffs.some(({ component }) => component.status === candidate),
+        );
+        return { name, diffs, status };
+      });
+      return { page, cells };
+    })
+    .filter(({ cells }) => cells.some((cell) => cell.status !== undefined));
+
+  const header = names
+    .map((name) => {
+      const affected = rows.filter(({ cells }) =>
+        cells.some(
+          (cell) =>
+            cell.name === name &&
+            cell.status !== undefined &&
+            cell.status !== "unchanged",
+        ),
+      ).length;
+      return `<th>${escapeHtml(name)}<span class="component-count ${affected > 0 ? "has-changes" : ""}">${affected} of ${rows.length}</span></th>`;
+    })
+    .join("");
+
+  const body = rows
+    .map(({ page, cells }) => {
+      const columns = cells
+        .map(({ diffs, status }) => {
+          if (!status) {
+            return '<td class="component-cell missing">&ndash;</td>';
+          }
+          const details = diffs
+            .map(({ label, component }) =>
+              component.diff
+                ? `${label}: ${component.diff.diffPercentage.toFixed(2)}%`
+                : component.error
+                ? `${label}: failed (${component.error})`
+                : `${label}: ${component.status}`,
+            )
+            .join("\n");
+          const changedDiff = diffs.find(
+            ({ component }) => component.status === "changed",
+          )?.component.diff;
+          const zoom = changedDiff
+            ? ` onclick="openLightbox('${changedDiff.diffPath}')"`
+            : "";
+          return `<td class="component-cell ${status}" title="${escapeHtml(details)}"${zoom}>${status.charAt(0).toUpperCase() + status.slice(1)}</td>`;
+        })
+        .join("");
+      return `
+            <tr class="component-row"${page.language ? ` data-language="${escapeHtml(page.language)}"` : ""}>
+              <td><a href="#card-${pageId(page)}">${escapeHtml(page.title)}</a>${page.site ? ` <span class="component-site">${escapeHtml(page.site)}</span>` : ""}</td>
+              ${columns}
+            </tr>`;
+    })
+    .join("");
+
+  return `
+      <section id="section-components" class="post-type-section">
+        <h2>Components</h2>
+        <div class="updates-card">
+          <p class="updates-summary">Each component is captured on its own and compared across all pages. Click a changed cell to see its diff.</p>
+          <div class="component-matrix-wrapper">
+            <table class="updates-table component-matrix">
+              <thead><tr><th>Page</th>${header}</tr></thead>
+              <tbody>${body}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </section>
+    `;
+}
+
 /**
  * Generate sidebar navigation HTML with URLs grouped by post type
  */
@@ -206,36 +794,25 @@ function generateSidebarNav(
       const screenshots = beforeByType.get(postType) || [];
       const urlItems = screenshots
         .map((s, index) => {
-          const itemId = `${postType}-${s.slug}`;
+          const itemId = pageId(s);
           const title =
             s.title.length > 30 ? s.title.substring(0, 30) + "..." : s.title;
-          const comparison = comparisons.find(
-            (c) => c.slug === s.slug && c.postType === s.postType,
-          );
-          const hasChanges =
-            comparison &&
-            (comparison.diff.desktop.diffPixels > 0 ||
-              comparison.diff.mobile.diffPixels > 0);
-          const changeClass = comparison
-            ? hasChanges
-              ? "nav-changed"
-              : "nav-unchanged"
-            : "";
-          return `<a href="#card-${itemId}" class="nav-url ${changeClass}" data-card-id="card-${itemId}">${hasChanges ? '<span class="nav-change-dot"></span>' : ""}${escapeHtml(title)}</a>`;
+          const pageComparisons = comparisons.filter((c) => samePage(c, s));
+          const hasChanges = pageComparisons.some(comparisonHasChanges);
+          const changeClass =
+            pageComparisons.length > 0
+              ? hasChanges
+                ? "nav-changed"
+                : "nav-unchanged"
+              : "";
+          return `<a href="#card-${itemId}" class="nav-url ${changeClass}" data-card-id="card-${itemId}"${s.language ? ` data-language="${escapeHtml(s.language)}"` : ""}>${hasChanges ? '<span class="nav-change-dot"></span>' : ""}${escapeHtml(title)}</a>`;
         })
         .join("\n");
 
       // Count changes in this post type
-      const changesInType = screenshots.filter((s) => {
-        const comparison = comparisons.find(
-          (c) => c.slug === s.slug && c.postType === s.postType,
-        );
-        return (
-          comparison &&
-          (comparison.diff.desktop.diffPixels > 0 ||
-            comparison.diff.mobile.diffPixels > 0)
-        );
-      }).length;
+      const changesInType = screenshots.filter((s) =>
+        comparisons.some((c) => samePage(c, s) && comparisonHasChanges(c)),
+      ).length;
 
       return `
       <div class="nav-group">
@@ -255,37 +832,42 @@ function generateSidebarNav(
 }
 
 /**
- * Generate the full HTML report
+ * Generate the sections of one site, one per post type
  */
-export function generateReport(config: ProjectConfig): string {
-  const beforeByType = groupByPostType(config.beforeScreenshots);
-  const afterByType = groupByPostType(config.afterScreenshots);
-  const comparisons = config.comparisons || [];
-
-  // Generate sidebar navigation
-  const sidebarNav = generateSidebarNav(beforeByType, comparisons);
-
-  // Generate sections for each post type
+function generatePostTypeSections(
+  config: ProjectConfig,
+  site: string,
+  beforeByType: Map<string, ScreenshotResult[]>,
+  comparisons: ComparisonResult[],
+): string {
   const postTypes = Array.from(beforeByType.keys());
-  const sections = postTypes
+  return postTypes
     .map((postType) => {
-      const beforeScreenshots = beforeByType.get(postType) || [];
-      const afterScreenshots = afterByType.get(postType) || [];
-
-      const cards = beforeScreenshots
-        .map((before) => {
-          const after = afterScreenshots.find((a) => a.slug === before.slug);
-          const comparison = comparisons.find(
-            (c) => c.slug === before.slug && c.postType === before.postType,
-          );
-          const cardId = `${postType}-${before.slug}`;
-          return generateComparisonCard(before, after, cardId, comparison);
+      const pageScreenshots = beforeByType.get(postType) || [];
+
+      const cards = pageScreenshots
+        .map((page) => {
+          const engines = config.beforeScreenshots
+            .filter((before) => samePage(before, page))
+            .map((before) => ({
+              browser: before.browser,
+              before,
+              after: config.afterScreenshots.find(
+                (a) => samePage(a, before) && a.browser === before.browser,
+              ),
+              comparison: comparisons.find(
+                (c) => samePage(c, before) && c.browser === before.browser,
+              ),
+            }));
+          const cardId = pageId(page);
+          return generateComparisonCard(engines, cardId, config.viewports);
         })
         .join("\n");
 
+      const heading = postType.charAt(0).toUpperCase() + postType.slice(1);
       return `
-      <section id="section-${postType}" class="post-type-section">
-        <h2>${postType.charAt(0).toUpperCase() + postType.slice(1)}</h2>
+      <section id="section-${siteScopedId(site, postType)}" class="post-type-section">
+        <h2>${site ? `${escapeHtml(site)} &middot; ` : ""}${heading}</h2>
         <div class="cards-grid">
           ${cards}
         </div>
@@ -293,12 +875,74 @@ export function generateReport(config: ProjectConfig): string {
     `;
     })
     .join("\n");
+}
+
+/**
+ * Generate the full HTML report
+ */
+export function generateReport(config: ProjectConfig): string {
+  // One card per page; each browser engine has its own before result
+  const pages = config.beforeScreenshots.filter(
+    (before, index, all) =>
+      all.findIndex((other) => samePage(other, before)) === index,
+  );
+  const comparisons = config.comparisons || [];
+  const pagesBySite = groupBySite(pages);
+
+  // Generate sidebar navigation (multisite: grouped by site, then post type)
+  const sidebarNav = Array.from(pagesBySite)
+    .map(([site, sitePages]) => {
+      const nav = generateSidebarNav(groupByPostType(sitePages), comparisons);
+      return site
+        ? `
+      <div class="nav-site">
+        <div class="nav-site-title">${escapeHtml(site)}</div>
+        ${nav}
+      </div>`
+        : nav;
+    })
+    .join("\n");
+
+  // Generate sections for each post type
+  const sections = Array.from(pagesBySite)
+    .map(([site, sitePages]) =>
+      generatePostTypeSections(
+        config,
+        site,
+        groupByPostType(sitePages),
+        comparisons,
+      ),
+    )
+    .join("\n");
 
   const hasAfterScreenshots = config.afterScreenshots.length > 0;
   const hasComparisons = comparisons.length > 0;
-  const changedCount = comparisons.filter(
-    (c) => c.diff.desktop.diffPixels > 0 || c.diff.mobile.diffPixels > 0,
+  const changedCount = comparisons.filter(comparisonHasChanges).length;
+  const failedCount = comparisons.filter((c) => c.status === "fail").length;
+  const captureFailedCount = config.beforeScreenshots.filter((before) =>
+    hasFailedCapture(
+      before,
+      config.afterScreenshots.find(
+        (a) => samePage(a, before) && a.browser === before.browser,
+      ),
+    ),
   ).length;
+  const warnedCount = comparisons.filter((c) => c.status === "warn").length;
+  const unstableCount = config.beforeScreenshots.filter(isUnstable).length;
+  const componentNames = Object.keys(config.components ?? {});
+  const changedComponents = componentNames.filter((name) =>
+    comparisons.some((c) =>
+      Object.values(c.components ?? {}).some(
+        (components) =>
+          components[name] !== undefined &&
+          components[name].status !== "unchanged",
+      ),
+    ),
+  );
+  const inventoryChanges =
+    config.inventory?.before && config.inventory.after
+      ? compareInventories(config.inventory.before, config.inventory.after)
+      : undefined;
   const endTimeDisplay = config.endTime
     ? formatDate(config.endTime)
     : "In Progress...";
@@ -389,6 +1033,10 @@ export function generateReport(config: ProjectConfig): string {
       font-weight: 500;
     }
     
+    .sidebar-meta-value a {
+      color: inherit;
+    }
+    
     .status-badge {
       display: inline-block;
       padding: 0.15rem 0.5rem;
@@ -415,6 +1063,15 @@ export function generateReport(config: ProjectConfig): string {
       border-bottom: 1px solid #333;
     }
     
+    .nav-site-title {
+      padding: 0.75rem 1.5rem 0.25rem;
+      font-size: 0.75rem;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+      color: #72aee6;
+    }
+    
     .nav-group-header {
       display: flex;
       align-items: center;
@@ -492,6 +1149,49 @@ export function generateReport(config: ProjectConfig): string {
       margin-bottom: 3rem;
     }
     
+    .language-filter {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      margin-bottom: 2rem;
+    }
+    
+    .language-filter-label {
+      font-size: 0.85rem;
+      font-weight: 600;
+      color: #555;
+    }
+    
+    .language-btn {
+      padding: 0.35rem 0.75rem;
+      border: 1px solid #ddd;
+      border-radius: 999px;
+      background: #fff;
+      cursor: pointer;
+      font-size: 0.8rem;
+    }
+    
+    .language-btn.active {
+      border-color: #0073aa;
+      background: #0073aa;
+      color: #fff;
+    }
+    
+    .language-badge {
+      padding: 0.1rem 0.4rem;
+      border: 1px solid #ccc;
+      border-radius: 3px;
+      font-size: 0.7rem;
+      font-weight: 600;
+      color: #555;
+    }
+    
+    .comparison-card.filtered,
+    .component-row.filtered,
+    .nav-url.filtered {
+      display: none;
+    }
+    
     .post-type-section h2 {
       font-size: 1.5rem;
       margin-bottom: 1rem;
@@ -537,6 +1237,16 @@ export function generateReport(config: ProjectConfig): string {
       text-decoration: underline;
     }
     
+    .consent-info {
+      margin-top: 0.25rem;
+      font-size: 0.8rem;
+      color: #888;
+    }
+    
+    .consent-info.consent-changed {
+      color: #b26a00;
+    }
+    
     .viewport-tabs {
       display: flex;
       border-bottom: 1px solid #eee;
@@ -561,6 +1271,33 @@ export function generateReport(config: ProjectConfig): string {
       color: white;
     }
     
+    .engine-tabs {
+      display: flex;
+      gap: 0.5rem;
+      padding: 0.5rem 1rem;
+      border-bottom: 1px solid #eee;
+      background: #fafafa;
+    }
+    
+    .engine-btn {
+      padding: 0.35rem 0.75rem;
+      border: 1px solid #ddd;
+      border-radius: 999px;
+      background: #fff;
+      cursor: pointer;
+      font-size: 0.8rem;
+    }
+    
+    .engine-btn.active {
+      border-color: #1e1e1e;
+      background: #1e1e1e;
+      color: #fff;
+    }
+    
+    .engine-panel.hidden {
+      display: none;
+    }
+    
     .comparison-container {
       display: grid;
       grid-template-columns: 1fr 1fr;
@@ -607,6 +1344,204 @@ export function generateReport(config: ProjectConfig): string {
       cursor: pointer;
     }
     
+    .masked-region {
+      position: absolute;
+      border: 2px dashed #9333ea;
+      background: rgba(147, 51, 234, 0.08);
+      pointer-events: none;
+    }
+    
+    .diff-band {
+      position: absolute;
+      left: 0;
+      width: 100%;
+      border-top: 2px solid;
+      border-bottom: 2px solid;
+      pointer-events: none;
+    }
+    
+    .diff-band.inserted {
+      border-color: #00a32a;
+      background: rgba(0, 163, 42, 0.12);
+    }
+    
+    .diff-band.removed {
+      border-color: #d63638;
+      background: rgba(214, 54, 56, 0.12);
+    }
+    
+    .diff-band.modified {
+      border-color: #dba617;
+      background: rgba(219, 166, 23, 0.12);
+    }
+    
+    .shift-note {
+      grid-column: 1 / -1;
+      font-size: 0.8rem;
+      color: #555;
+    }
+    
+    .masked-note {
+      grid-column: 1 / -1;
+      font-size: 0.8rem;
+      color: #7e22ce;
+    }
+    
+    .updates-card {
+      background: white;
+      border-radius: 8px;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.1);
+      padding: 1.5rem;
+    }
+    
+    .updates-summary {
+      margin-bottom: 1rem;
+      color: #555;
+    }
+    
+    .updates-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 0.9rem;
+    }
+    
+    .updates-table th,
+    .updates-table td {
+      text-align: left;
+      padding: 0.5rem;
+      border-bottom: 1px solid #eee;
+    }
+    
+    .update-kind {
+      display: inline-block;
+      padding: 0.1rem 0.5rem;
+      border-radius: 3px;
+      font-size: 0.75rem;
+      font-weight: 600;
+      background: #e5f5fa;
+      color: #0073aa;
+    }
+    
+    .update-kind.installed,
+    .update-kind.activated {
+      background: #edfaef;
+      color: #00a32a;
+    }
+    
+    .update-kind.removed,
+    .update-kind.deactivated {
+      background: #fcf0f1;
+      color: #d63638;
+    }
+    
+    .component-matrix-wrapper {
+      overflow-x: auto;
+    }
+    
+    .component-matrix th {
+      white-space: nowrap;
+    }
+    
+    .component-count {
+      display: block;
+      font-size: 0.75rem;
+      font-weight: normal;
+      color: #888;
+    }
+    
+    .component-count.has-changes {
+      color: #d63638;
+    }
+    
+    .component-site {
+      font-size: 0.75rem;
+      color: #888;
+    }
+    
+    .component-cell {
+      font-size: 0.8rem;
+      font-weight: 600;
+      text-align: center !important;
+    }
+    
+    .component-cell.unchanged {
+      color: #00a32a;
+    }
+    
+    .component-cell.changed {
+      background: #fcf0f1;
+      color: #d63638;
+      cursor: zoom-in;
+    }
+    
+    .component-cell.added,
+    .component-cell.removed {
+      background: #fef3c7;
+      color: #b45309;
+    }
+    
+    .component-cell.missing {
+      color: #ccc;
+    }
+    
+    .component-cell.failed {
+      background: #f3f4f6;
+      color: #4b5563;
+    }
+    
+    .updates-note {
+      margin-top: 1rem;
+      font-size: 0.8rem;
+      color: #b45309;
+    }
+    
+    .unstable-note {
+      grid-column: 1 / -1;
+      font-size: 0.8rem;
+      color: #b45309;
+    }
+    
+    .change-indicator.unstable,
+    .tab-diff-indicator.unstable {
+      background: #fef3c7;
+      color: #b45309;
+    }
+    
+    .image-wrapper.failed {
+      border-style: dashed;
+      border-color: #9ca3af;
+      background: repeating-linear-gradient(45deg, #f9fafb, #f9fafb 10px, #f3f4f6 10px, #f3f4f6 20px);
+    }
+    
+    .image-wrapper.failed .label {
+      background: #6b7280;
+    }
+    
+    .failed-msg {
+      padding: 4rem 2rem;
+      text-align: center;
+      color: #4b5563;
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+      word-break: break-word;
+    }
+    
+    .failed-msg span {
+      font-size: 0.8rem;
+      font-family: monospace;
+    }
+    
+    .change-indicator.capture-failed,
+    .tab-diff-indicator.capture-failed {
+      background: #374151;
+      color: #fff;
+    }
+    
+    .comparison-card.capture-failed {
+      border-left: 4px dashed #6b7280;
+    }
+    
     .pending-msg {
       padding: 4rem 2rem;
       text-align: center;
@@ -683,6 +1618,52 @@ export function generateReport(config: ProjectConfig): string {
       border-left: 4px solid #16a34a;
     }
     
+    /* Threshold status */
+    .threshold-status {
+      font-size: 0.7rem;
+      padding: 0.2rem 0.5rem;
+      border-radius: 3px;
+      font-weight: 700;
+      letter-spacing: 0.05em;
+    }
+    
+    .threshold-status.pass {
+      background: #dcfce7;
+      color: #16a34a;
+    }
+    
+    .threshold-status.warn {
+      background: #fef3c7;
+      color: #b45309;
+    }
+    
+    .threshold-status.fail {
+      background: #dc2626;
+      color: white;
+    }
+    
+    .comparison-card.status-pass {
+      border-left-color: #16a34a;
+    }
+    
+    .comparison-card.status-warn {
+      border-left-color: #dba617;
+    }
+    
+    .comparison-card.status-fail {
+      border-left-color: #dc2626;
+    }
+    
+    .tab-diff-indicator.status-warn {
+      background: #fef3c7;
+      color: #b45309;
+    }
+    
+    .tab-diff-indicator.status-fail {
+      background: #dc2626;
+      color: white;
+    }
+    
     /* Sidebar change indicators */
     .nav-group-changes {
       background: #dc2626;
@@ -840,8 +1821,53 @@ export function generateReport(config: ProjectConfig): string {
         </div>
         <div class="sidebar-meta-row">
           <span class="sidebar-meta-label">URLs</span>
-          <span class="sidebar-meta-value">${config.beforeScreenshots.length}</span>
+          <span class="sidebar-meta-value">${pages.length}</span>
         </div>
+        ${
+          config.sites
+            ? `
+        <div class="sidebar-meta-row">
+          <span class="sidebar-meta-label">Sites</span>
+          <span class="sidebar-meta-value">${config.sites.length}</span>
+        </div>`
+            : ""
+        }
+        ${
+          config.consent
+            ? `
+        <div class="sidebar-meta-row">
+          <span class="sidebar-meta-label">Cookie banner</span>
+          <span class="sidebar-meta-value" title="Handled once on the homepage, reused for every page">${escapeHtml(describeConsent(config.consent.outcome))}</span>
+        </div>`
+            : ""
+        }
+        ${
+          config.sampling
+            ? `
+        <div class="sidebar-meta-row">
+          <span class="sidebar-meta-label">Sampling</span>
+          <span class="sidebar-meta-value" title="Reproduce with --seed ${config.sampling.seed}">${escapeHtml(config.sampling.strategy ?? "random")}, seed ${config.sampling.seed}</span>
+        </div>`
+            : ""
+        }
+        ${
+          config.browsers.length > 1
+            ? `
+        <div class="sidebar-meta-row">
+          <span class="sidebar-meta-label">Browsers</span>
+          <span class="sidebar-meta-value">${config.browsers.map((browser) => BROWSER_LABELS[browser]).join(", ")}</span>
+        </div>`
+            : ""
+        }
+        ${
+          inventoryChanges !== undefined
+            ? `
+        <div class="sidebar-meta-row">
+          <span class="sidebar-meta-label">Updates</span>
+          <span class="sidebar-meta-value"><a href="#section-updates">${inventoryChanges.length} changes</a></span>
+        </div>`
+            : ""
+        }
         ${
           hasComparisons
             ? `
@@ -849,6 +1875,40 @@ export function generateReport(config: ProjectConfig): string {
           <span class="sidebar-meta-label">Changes</span>
           <span class="sidebar-meta-value ${changedCount > 0 ? "has-changes" : ""}">${changedCount} of ${comparisons.length}</span>
         </div>
+        <div class="sidebar-meta-row">
+          <span class="sidebar-meta-label">Thresholds</span>
+          <span class="sidebar-meta-value ${failedCount > 0 ? "has-changes" : ""}">${failedCount} fail, ${warnedCount} warn</span>
+        </div>
+        `
+            : ""
+        }
+        ${
+          comparisons.some((c) => c.components)
+            ? `
+        <div class="sidebar-meta-row">
+          <span class="sidebar-meta-label">Components</span>
+          <span class="sidebar-meta-value ${changedComponents.length > 0 ? "has-changes" : ""}"><a href="#section-components">${changedComponents.length} of ${componentNames.length} changed</a></span>
+        </div>
+        `
+            : ""
+        }
+        ${
+          captureFailedCount > 0
+            ? `
+        <div class="sidebar-meta-row">
+          <span class="sidebar-meta-label">Failed captures</span>
+          <span class="sidebar-meta-value has-changes">${captureFailedCount}</span>
+        </div>
+        `
+            : ""
+        }
+        ${
+          unstableCount > 0
+            ? `
+        <div class="sidebar-meta-row">
+          <span class="sidebar-meta-label">Unstable pages</span>
+          <span class="sidebar-meta-value">${unstableCount}</span>
+        </div>
         `
             : ""
         }
@@ -868,6 +1928,9 @@ export function generateReport(config: ProjectConfig): string {
     </aside>
     
     <main class="main-content">
+      ${generateLanguageFilter(pages)}
+      ${generateInventorySection(config.inventory ?? {})}
+      ${generateComponentMatrix(pages, comparisons, componentNames, config.browsers.length > 1)}
       ${sections}
       
       <footer>
@@ -921,7 +1984,7 @@ export function generateReport(config: ProjectConfig): string {
       observer.observe(card);
     });
     
-    // Viewport tab switching
+    // Viewport tab switching (kept in sync across the engine panels of a card)
     document.querySelectorAll('.comparison-card').forEach(card => {
       const tabs = card.querySelectorAll('.tab-btn');
       const containers = card.querySelectorAll('.comparison-container');
@@ -930,8 +1993,7 @@ export function generateReport(config: ProjectConfig): string {
         tab.addEventListener('click', () => {
           const viewport = tab.dataset.viewport;
           
-          tabs.forEach(t => t.classList.remove('active'));
-          tab.classList.add('active');
+          tabs.forEach(t => t.classList.toggle('active', t.dataset.viewport === viewport));
           
           containers.forEach(c => {
             c.classList.toggle('hidden', c.dataset.viewport !== viewport);
@@ -940,6 +2002,33 @@ export function generateReport(config: ProjectConfig): string {
       });
     });
     
+    // Browser engine switching
+    document.querySelectorAll('.comparison-card').forEach(card => {
+      const buttons = card.querySelectorAll('.engine-btn');
+      const panels = card.querySelectorAll('.engine-panel');
+      
+      buttons.forEach(button => {
+        button.addEventListener('click', () => {
+          const browser = button.dataset.browser;
+          
+          buttons.forEach(b => b.classList.toggle('active', b === button));
+          panels.forEach(p => p.classList.toggle('hidden', p.dataset.browser !== browser));
+        });
+      });
+    });
+    
+    // Language filter: hide cards and nav items of other languages
+    document.querySelectorAll('.language-btn').forEach(button => {
+      button.addEventListener('click', () => {
+        const language = button.dataset.language;
+        
+        document.querySelectorAll('.language-btn').forEach(b => b.classList.toggle('active', b === button));
+        document.querySelectorAll('.comparison-card[data-language], .nav-url[data-language], .component-row[data-language]').forEach(element => {
+          element.classList.toggle('filtered', language !== '' && element.dataset.language !== language);
+        });
+      });
+    });
+    
     // Lightbox
     function openLightbox(src) {
       document.getElementById('lightbox-img').src = src;
@@ -966,8 +2055,13 @@ export function generateReport(config: ProjectConfig): string {
 
 /**
  * Save the report to disk
+ * @param configOrFolder - Project config, or a project folder whose run.json is used
  */
-export function saveReport(config: ProjectConfig): string {
+export function saveReport(configOrFolder: ProjectConfig | string): string {
+  const config =
+    typeof configOrFolder === "string"
+      ? loadManifest(configOrFolder)
+      : configOrFolder;
   const html = generateReport(config);
   const reportPath = path.join(config.projectFolder, "report.html");
   fs.writeFileSync(reportPath, html, "utf-8");
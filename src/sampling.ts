@@ -0,0 +1,111 @@
+/**
+ * Sampling Module
+ * Picks which posts of a post type are captured, reproducibly
+ */
+
+import { SamplingConfig, SamplingStrategy, WPPost } from './types';
+
+/**
+ * Strategy used when none is configured
+ */
+export const DEFAULT_SAMPLING_STRATEGY: SamplingStrategy = 'random';
+
+/**
+ * Sampling config with a seed
+ */
+export type ResolvedSampling = SamplingConfig & { seed: number };
+
+/**
+ * Resolve the sampling config, generating a seed if none is set
+ */
+export function resolveSampling(config: SamplingConfig = {}): ResolvedSampling {
+  return {
+    ...config,
+    strategy: config.strategy ?? DEFAULT_SAMPLING_STRATEGY,
+    seed: config.seed ?? Math.floor(Math.random() * 2 ** 31),
+  };
+}
+
+/**
+ * Strategy for a post type
+ */
+export function strategyFor(config: SamplingConfig, postType: string): SamplingStrategy {
+  return config.postTypes?.[postType] ?? config.strategy ?? DEFAULT_SAMPLING_STRATEGY;
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32), returns values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derive a per-post-type seed, so selecting other post types doesn't change the sample
+ */
+function seedFor(seed: number, postType: string): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < postType.length; i++) {
+    hash = Math.imul(hash ^ postType.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Pick n items with a seeded Fisher-Yates shuffle
+ */
+function seededSelect<T>(items: T[], n: number, random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.slice(0, n);
+}
+
+/**
+ * Select posts from those fetched for a strategy
+ * `posts` must be ordered newest first (oldest first for 'oldest').
+ */
+export function samplePosts(
+  posts: WPPost[],
+  strategy: SamplingStrategy,
+  count: number,
+  seed: number,
+  postType: string
+): WPPost[] {
+  switch (strategy) {
+    case 'all':
+      return posts;
+
+    case 'recent':
+    case 'oldest':
+      return posts.slice(0, count);
+
+    case 'random':
+      // Sort by ID first so the sample doesn't depend on API ordering
+      return seededSelect(
+        [...posts].sort((a, b) => a.id - b.id),
+        count,
+        createRandom(seedFor(seed, postType))
+      );
+
+    case 'per-template': {
+      const byTemplate = new Map<string, WPPost>();
+      for (const post of posts) {
+        const template = post.template ?? '';
+        if (!byTemplate.has(template)) {
+          byTemplate.set(template, post);
+        }
+      }
+      return Array.from(byTemplate.values());
+    }
+  }
+}
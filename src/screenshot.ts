@@ -3,36 +3,79 @@
  * Uses Playwright to capture full-page screenshots
  */
 
-import { chromium, Browser, Page } from 'playwright';
+import { chromium, firefox, webkit, errors, Browser, BrowserContext, BrowserType, Page } from 'playwright';
 import * as path from 'path';
 import * as fs from 'fs';
-import { UrlToScreenshot, ScreenshotResult, VIEWPORTS, ViewportType, CookieConfig } from './types';
+import {
+  UrlToScreenshot,
+  ScreenshotResult,
+  ViewportConfig,
+  CookieConfig,
+  MaskConfig,
+  Region,
+  CaptureOutcome,
+  CaptureStatus,
+  BrowserEngine,
+  DEFAULT_BROWSERS,
+  StabilizeConfig,
+  HttpCredentials,
+  ConsentOutcome,
+  ConsentState,
+  StorageState,
+  InteractionRule,
+  ComponentConfig,
+} from './types';
+import { resolveMask, MASK_COLOR } from './mask';
+import { stabilizeContext, stabilizePage } from './stabilize';
+import { loginToWordPress, WordPressLogin } from './auth';
+import { describeConsent, handleCookieBanner } from './consent';
+import { describeStep, resolveInteractions, runStep } from './interactions';
+import { captureKey, resolveViewports, viewportLabel, viewportSize } from './viewports';
+import { Logger, consoleLogger, runPool, RateLimiter, OrderedOutput } from './concurrency';
 
 /**
- * Common cookie banner button texts (German and English)
+ * Playwright launchers per engine
  */
-const COMMON_COOKIE_TEXTS = [
-  // German
-  'Alle akzeptieren',
-  'Alles akzeptieren',
-  'Akzeptieren',
-  'Zustimmen',
-  'OK',
-  'Einverstanden',
-  'Verstanden',
-  'Alle Cookies akzeptieren',
-  
-  // English
-  'Accept',
-  'Accept All',
-  'Accept all cookies',
-  'Agree',
-  'I Agree',
-  'Allow',
-  'Allow all',
-  'Okay',
-  'Got it'
-];
+const BROWSER_TYPES: Record<BrowserEngine, BrowserType> = { chromium, firefox, webkit };
+
+/**
+ * Capture failure with its classified status
+ */
+class CaptureError extends Error {
+  readonly status: CaptureStatus;
+  readonly httpStatus?: number;
+
+  constructor(status: CaptureStatus, message: string, httpStatus?: number) {
+    super(message);
+    this.name = 'CaptureError';
+    this.status = status;
+    this.httpStatus = httpStatus;
+  }
+}
+
+/**
+ * Classify an error thrown while capturing
+ */
+function toCaptureOutcome(error: unknown, attempts: number): CaptureOutcome {
+  if (error instanceof CaptureError) {
+    return { status: error.status, error: error.message, httpStatus: error.httpStatus, attempts };
+  }
+  return {
+    status: error instanceof errors.TimeoutError ? 'timeout' : 'navigation-error',
+    error: error instanceof Error ? error.message.split('\n')[0] : String(error),
+    attempts,
+  };
+}
+
+/**
+ * Whether a failed capture is worth retrying (client errors other than 429 are not)
+ */
+function isRetryable(outcome: CaptureOutcome): boolean {
+  if (outcome.status !== 'http-error' || outcome.httpStatus === undefined) {
+    return true;
+  }
+  return outcome.httpStatus >= 500 || outcome.httpStatus === 429;
+}
 
 /**
  * Sanitize filename to remove invalid characters
@@ -46,125 +89,182 @@ function sanitizeFilename(name: string): string {
     .slice(0, 50); // Limit length
 }
 
+/**
+ * Options for ScreenshotManager
+ */
+export interface ScreenshotOptions {
+  /** Viewports to capture (default: desktop and mobile) */
+  viewports?: ViewportConfig[];
+  /** Browser engines to capture with (default: chromium) */
+  browsers?: BrowserEngine[];
+  /** Elements to mask before capture */
+  mask?: MaskConfig;
+  /** Deterministic rendering (disabled if unset) */
+  stabilize?: StabilizeConfig;
+  /** Capture every viewport a second time in a fresh context (noise baseline) */
+  repeatCapture?: boolean;
+  /** Number of URLs captured in parallel, each in its own browser context (default: 1) */
+  concurrency?: number;
+  /** Capture all viewports of a URL at the same time */
+  parallelViewports?: boolean;
+  /** Maximum requests per second to the site's host across all workers */
+  maxRequestsPerSecond?: number;
+  /** Retries for a failed viewport capture (default: 1) */
+  retries?: number;
+  /** Delay before the first retry in ms, doubled for each further retry (default: 2000) */
+  retryDelayMs?: number;
+  /** Log in once via wp-login.php and capture every page with that session */
+  login?: WordPressLogin;
+  /** HTTP Basic auth for password-protected staging environments */
+  httpCredentials?: HttpCredentials;
+  /** Pages the cookie banner is handled on once, one per origin (the homepage first) */
+  consentUrls?: string[];
+  /** Consent from an earlier phase, reused instead of handling the banner again */
+  consent?: ConsentState;
+  /** Steps run on matching pages before capture */
+  interactions?: InteractionRule[];
+  /** Components captured as element screenshots after each viewport capture */
+  components?: ComponentConfig;
+}
+
+/**
+ * Screenshot taken after an interaction step
+ */
+interface StateCapture {
+  name: string;
+  outputPath: string;
+  maskedRegions: Region[];
+}
+
+/**
+ * Element screenshot of a component
+ */
+interface ComponentCapture {
+  outputPath: string;
+  /** Page region of the element (CSS pixels, document coordinates) */
+  region: Region;
+}
+
 /**
  * Screenshot manager class
  */
 export class ScreenshotManager {
-  private browser: Browser | null = null;
+  private browsers = new Map<BrowserEngine, Browser>();
+  private browserEngines: BrowserEngine[];
   private projectFolder: string;
   private cookieConfig: CookieConfig;
+  private viewports: ViewportConfig[];
+  private mask?: MaskConfig;
+  private stabilize?: StabilizeConfig;
+  private repeatCapture: boolean;
+  private concurrency: number;
+  private parallelViewports: boolean;
+  private rateLimiter?: RateLimiter;
+  private retries: number;
+  private retryDelayMs: number;
+  private login?: WordPressLogin;
+  private httpCredentials?: HttpCredentials;
+  private consentUrls: string[];
+  private storageState?: StorageState;
+  private interactions?: InteractionRule[];
+  private components: ComponentConfig;
+
+  /** Consent shared by all captures (undefined: the banner is handled on every page) */
+  consent?: ConsentState;
 
-  constructor(projectFolder: string, cookieConfig: CookieConfig) {
+  constructor(projectFolder: string, cookieConfig: CookieConfig, options: ScreenshotOptions = {}) {
     this.projectFolder = projectFolder;
     this.cookieConfig = cookieConfig;
+    this.viewports = options.viewports ?? resolveViewports();
+    this.browserEngines = options.browsers ?? DEFAULT_BROWSERS;
+    this.mask = options.mask;
+    this.stabilize = options.stabilize;
+    this.repeatCapture = options.repeatCapture ?? false;
+    this.concurrency = options.concurrency ?? 1;
+    this.parallelViewports = options.parallelViewports ?? false;
+    this.retries = options.retries ?? 1;
+    this.retryDelayMs = options.retryDelayMs ?? 2000;
+    this.login = options.login;
+    this.httpCredentials = options.httpCredentials;
+    this.consentUrls = options.consentUrls ?? [];
+    this.consent = options.consent;
+    this.interactions = options.interactions;
+    this.components = options.components ?? {};
+    if (options.maxRequestsPerSecond) {
+      this.rateLimiter = new RateLimiter(options.maxRequestsPerSecond);
+    }
   }
 
   /**
-   * Initialize browser
+   * Initialize browsers (one per configured engine), give cookie consent and log in if configured
+   * Consent is given once and reused by every context, so all pages and both phases
+   * render with the same consent.
    */
   async init(): Promise<void> {
-    console.log('Launching browser...');
-    this.browser = await chromium.launch({
-      headless: true,
-    });
+    for (const engine of this.browserEngines) {
+      console.log(`Launching browser (${engine})...`);
+      this.browsers.set(engine, await BROWSER_TYPES[engine].launch({
+        headless: true,
+      }));
+    }
+
+    const [browser] = this.browsers.values();
+    if (this.consent) {
+      console.log(`Reusing cookie consent: ${describeConsent(this.consent.outcome)}`);
+    } else if (browser && this.cookieConfig.mode !== 'none' && this.consentUrls.length > 0) {
+      this.consent = await this.giveConsent(browser);
+    }
+    this.storageState = this.consent?.storageState;
+
+    if (this.login && browser) {
+      console.log(`Logging in as ${this.login.username}...`);
+      this.storageState = await loginToWordPress(browser, this.login, this.httpCredentials, this.storageState);
+    }
   }
 
   /**
-   * Close browser
+   * Handle the cookie banner on the consent pages and keep the resulting storage state
+   * @returns undefined if a page couldn't be loaded (the banner is then handled on every page)
    */
-  async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
+  private async giveConsent(browser: Browser): Promise<ConsentState | undefined> {
+    const context = await browser.newContext({ httpCredentials: this.httpCredentials });
+
+    try {
+      let outcome: ConsentOutcome | undefined;
+      for (const url of this.consentUrls) {
+        console.log(`Handling cookie banner on ${url}...`);
+        const page = await context.newPage();
+        await page.goto(url, { waitUntil: 'networkidle', timeout: 60000 });
+        const pageOutcome = await handleCookieBanner(page, this.cookieConfig, consoleLogger);
+        outcome ??= pageOutcome;
+        await page.close();
+      }
+
+      return outcome ? { outcome, storageState: await context.storageState() } : undefined;
+    } catch (error) {
+      console.warn(`Could not handle the cookie banner once, handling it on every page: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`);
+      return undefined;
+    } finally {
+      await context.close();
     }
   }
 
   /**
-   * Ensure directory exists
+   * Close browsers
    */
-  private ensureDir(dir: string): void {
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
+  async close(): Promise<void> {
+    for (const browser of this.browsers.values()) {
+      await browser.close();
     }
+    this.browsers.clear();
   }
 
   /**
-   * Handle cookie banner based on configuration
+   * Ensure directory exists
    */
-  private async handleCookieBanner(page: Page): Promise<void> {
-    if (this.cookieConfig.mode === 'none') {
-      return;
-    }
-
-    console.log('    Checking for cookie banner...');
-
-    // Trigger scroll-based banners
-    try {
-      await page.mouse.wheel(0, 10);
-      await page.waitForTimeout(500);
-    } catch (e) { /* ignore */ }
-
-    const searchTexts = this.cookieConfig.mode === 'custom' && this.cookieConfig.customText
-      ? [this.cookieConfig.customText]
-      : COMMON_COOKIE_TEXTS;
-
-    try {
-      // Try to find and click the cookie button
-      for (const text of searchTexts) {
-        console.log(`    Searching for cookie button with text: "${text}"`);
-        
-        try {
-          // Strategy 1: Playwright's specific role locator (most reliable for actual buttons)
-          // We use explicit matching to avoid accidental clicks on privacy policy links etc.
-          const button = page.getByRole('button', { name: text });
-          if (await button.isVisible({ timeout: 500 })) {
-             await button.click({ timeout: 1000 });
-             console.log(`    Clicked cookie button (role=button): "${text}"`);
-             await page.waitForTimeout(1500); // Wait for animation
-             return;
-          }
-        } catch (e) { /* ignore */ }
-
-        try {
-          // Strategy 2: Exact text match on common clickable elements
-          // specific tags to avoid clicking random paragraphs
-          const element = page.locator(`button:text-is("${text}"), a:text-is("${text}"), [role="button"]:text-is("${text}"), input[type="button"][value="${text}"]`);
-          if (await element.count() > 0 && await element.first().isVisible({ timeout: 500 })) {
-            await element.first().click({ timeout: 1000 });
-            console.log(`    Clicked cookie button (exact text): "${text}"`);
-            await page.waitForTimeout(1500);
-            return;
-          }
-        } catch (e) { /* ignore */ }
-
-        try {
-           // Strategy 3: Loose text match (contains) - high risk of false positives, so we check stricter tags first
-           // Use text= syntax which is robust in Playwright
-           const textLocator = page.locator(`text=${text}`).first();
-           if (await textLocator.isVisible({ timeout: 500 })) {
-             // Check if it's clickable or inside a clickable element
-             await textLocator.click({ timeout: 1000 });
-             console.log(`    Clicked cookie element (text match): "${text}"`);
-             await page.waitForTimeout(1500);
-             return;
-           }
-        } catch (e) { /* ignore */ }
-      }
-      
-      if (this.cookieConfig.mode === 'custom') {
-        console.warn(`    Warning: Could not find any clickable element containing "${this.cookieConfig.customText}"`);
-        // Fallback: Dump visible buttons to help user debug
-        try {
-           const buttons = await page.getByRole('button').allInnerTexts();
-           const visibleButtons = buttons.filter(b => b.trim().length > 0).slice(0, 10);
-           if (visibleButtons.length > 0) {
-             console.log(`    Visible buttons found on page: ${visibleButtons.join(', ')}`);
-           }
-        } catch (e) { /* ignore */ }
-      }
-      
-    } catch (error) {
-      console.warn(`    Warning: Error handling cookie banner: ${error instanceof Error ? error.message : String(error)}`);
+  private ensureDir(dir: string): void {
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
     }
   }
 
@@ -210,24 +310,149 @@ export class ScreenshotManager {
   }
 
   /**
-   * Take a screenshot at a specific viewport
+   * Measure the page regions covered by elements matching the selectors
+   */
+  private async measureRegions(page: Page, selectors: string[]): Promise<Region[]> {
+    return page.evaluate((selectorList: string[]) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const doc = (globalThis as any).document;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const win = (globalThis as any).window;
+      const regions: { x: number; y: number; width: number; height: number }[] = [];
+
+      for (const selector of selectorList) {
+        let elements = [];
+        try {
+          elements = Array.from(doc.querySelectorAll(selector));
+        } catch {
+          continue; // Invalid selector
+        }
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        for (const element of elements as any[]) {
+          const rect = element.getBoundingClientRect();
+          if (rect.width > 0 && rect.height > 0) {
+            regions.push({
+              x: Math.round(rect.left + win.scrollX),
+              y: Math.round(rect.top + win.scrollY),
+              width: Math.round(rect.width),
+              height: Math.round(rect.height),
+            });
+          }
+        }
+      }
+
+      return regions;
+    }, selectors);
+  }
+
+  /**
+   * Capture the full page with masked or hidden elements
+   * @returns Page regions of masked elements
+   */
+  private async capturePage(page: Page, url: string, outputPath: string, viewport: ViewportConfig): Promise<Region[]> {
+    const { selectors } = resolveMask(this.mask, url, viewport.name);
+    const maskedRegions = selectors.length > 0 ? await this.measureRegions(page, selectors) : [];
+    const hide = this.mask?.strategy === 'hide';
+
+    if (hide && selectors.length > 0) {
+      await page.addStyleTag({
+        content: `${selectors.join(', ')} { visibility: hidden !important; }`,
+      });
+    }
+
+    await page.screenshot({
+      path: outputPath,
+      fullPage: true,
+      mask: hide ? [] : selectors.map(selector => page.locator(selector)),
+      maskColor: MASK_COLOR,
+      animations: this.stabilize ? 'disabled' : 'allow',
+    });
+
+    return maskedRegions;
+  }
+
+  /**
+   * Capture the first visible match of every component selector as an element screenshot
+   * @returns Screenshot per component found on the page
+   */
+  private async captureComponents(page: Page, url: string, outputPath: string, viewport: ViewportConfig, log: Logger): Promise<Record<string, ComponentCapture>> {
+    const { selectors } = resolveMask(this.mask, url, viewport.name);
+    const hide = this.mask?.strategy === 'hide';
+    const captures: Record<string, ComponentCapture> = {};
+
+    for (const [name, selector] of Object.entries(this.components)) {
+      const componentPath = outputPath.replace(/\.png$/, `-component-${sanitizeFilename(name)}.png`);
+      try {
+        // An invalid selector only skips its component, not the page
+        const element = page.locator(selector).first();
+        if (!(await element.isVisible())) {
+          continue;
+        }
+
+        await element.screenshot({
+          path: componentPath,
+          mask: hide ? [] : selectors.map(maskSelector => page.locator(maskSelector)),
+          maskColor: MASK_COLOR,
+          animations: this.stabilize ? 'disabled' : 'allow',
+          timeout: 10000,
+        });
+        // Where the element sits on the page, to line it up with mask regions and the noise mask
+        const region = await element.evaluate(node => {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const win = (globalThis as any).window;
+          const rect = node.getBoundingClientRect();
+          return {
+            x: Math.round(rect.left + win.scrollX),
+            y: Math.round(rect.top + win.scrollY),
+            width: Math.round(rect.width),
+            height: Math.round(rect.height),
+          };
+        });
+        captures[name] = { outputPath: componentPath, region };
+      } catch (error) {
+        log.log(`    Component ${name} not captured: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`);
+      }
+    }
+
+    return captures;
+  }
+
+  /**
+   * Take a screenshot at a specific viewport, after running the page's interaction steps
+   * @returns Page regions of masked elements, how the cookie banner was handled, the step and component screenshots
    */
   private async takeScreenshot(
     page: Page,
-    url: string,
+    urlInfo: UrlToScreenshot,
     outputPath: string,
-    viewport: ViewportType
-  ): Promise<void> {
-    const { width, height } = VIEWPORTS[viewport];
-    
-    await page.setViewportSize({ width, height });
-    await page.goto(url, { 
+    viewport: ViewportConfig,
+    log: Logger
+  ): Promise<{ maskedRegions: Region[]; consent?: ConsentOutcome; states: StateCapture[]; components: Record<string, ComponentCapture> }> {
+    const { url, expectedStatus, addToCartUrl } = urlInfo;
+
+    // Fill the cart first; the request shares the context's cookies but not its routes,
+    // so it waits for the rate limit itself
+    if (addToCartUrl) {
+      if (this.rateLimiter && new URL(addToCartUrl).host === new URL(url).host) {
+        await this.rateLimiter.acquire();
+      }
+      const cart = await page.request.get(addToCartUrl, { timeout: 60000 });
+      if (!cart.ok()) {
+        throw new CaptureError('http-error', `Adding to cart failed: HTTP ${cart.status()} ${cart.statusText()}`, cart.status());
+      }
+    }
+
+    const response = await page.goto(url, { 
       waitUntil: 'networkidle',
       timeout: 60000,
     });
+
+    if (response && response.status() >= 400 && response.status() !== expectedStatus) {
+      throw new CaptureError('http-error', `HTTP ${response.status()} ${response.statusText()}`, response.status());
+    }
     
-    // Handle cookie banner
-    await this.handleCookieBanner(page);
+    // Handle cookie banner, unless consent was given once for all pages
+    const consent = this.consent ? undefined : await handleCookieBanner(page, this.cookieConfig, log);
 
     // Scroll through page to trigger all lazy-loaded images
     await this.scrollToLoadAllContent(page);
@@ -237,77 +462,241 @@ export class ScreenshotManager {
     
     // Additional wait for images to render
     await page.waitForTimeout(500);
-    
-    await page.screenshot({
-      path: outputPath,
-      fullPage: true,
+
+    if (this.stabilize) {
+      await stabilizePage(page);
+    }
+
+    // Open menus, tabs and modals; named steps are captured in their state
+    const states: StateCapture[] = [];
+    const steps = resolveInteractions(this.interactions, urlInfo);
+    for (const [index, step] of steps.entries()) {
+      try {
+        await runStep(page, step);
+      } catch (error) {
+        const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+        throw new CaptureError('interaction-error', `Step ${index + 1} (${describeStep(step)}) failed: ${message}`);
+      }
+      if (step.screenshot) {
+        const statePath = outputPath.replace(/\.png$/, `-state-${sanitizeFilename(step.screenshot)}.png`);
+        const stateRegions = await this.capturePage(page, url, statePath, viewport);
+        states.push({ name: step.screenshot, outputPath: statePath, maskedRegions: stateRegions });
+      }
+    }
+
+    // Mask or hide dynamic elements
+    const maskedRegions = await this.capturePage(page, url, outputPath, viewport);
+    const components = await this.captureComponents(page, url, outputPath, viewport, log);
+
+    return { maskedRegions, consent, states, components };
+  }
+
+  /**
+   * Create a browser context emulating a viewport
+   */
+  private async newContext(browser: Browser, engine: BrowserEngine, viewport: ViewportConfig, pageUrl: string): Promise<BrowserContext> {
+    const context = await browser.newContext({
+      viewport: { width: viewport.width, height: viewport.height },
+      deviceScaleFactor: viewport.deviceScaleFactor,
+      // Firefox has no mobile emulation; it still gets the size, scale and touch settings
+      isMobile: engine === 'firefox' ? undefined : viewport.isMobile,
+      hasTouch: viewport.hasTouch,
+      userAgent: viewport.userAgent,
+      reducedMotion: this.stabilize ? 'reduce' : undefined,
+      httpCredentials: this.httpCredentials,
+      storageState: this.storageState,
     });
+
+    if (this.stabilize) {
+      await stabilizeContext(context, this.stabilize);
+    }
+
+    if (this.rateLimiter) {
+      await this.applyRateLimit(context, pageUrl, this.rateLimiter);
+    }
+
+    return context;
   }
 
   /**
-   * Take screenshots for a single URL (both desktop and mobile)
+   * Take screenshots for a single URL with one engine (all configured viewports)
+   * Each viewport is captured in its own browser context.
    */
   async screenshotUrl(
     urlInfo: UrlToScreenshot,
-    phase: 'before' | 'after'
+    engine: BrowserEngine,
+    phase: 'before' | 'after',
+    log: Logger = consoleLogger
   ): Promise<ScreenshotResult> {
-    if (!this.browser) {
-      throw new Error('Browser not initialized. Call init() first.');
+    const browser = this.browsers.get(engine);
+    if (!browser) {
+      throw new Error(`Browser ${engine} not initialized. Call init() first.`);
     }
 
-    const context = await this.browser.newContext();
-    const page = await context.newPage();
-
-    const phaseFolder = path.join(this.projectFolder, phase);
+    // Captures are stored per engine: before/chromium/, before/webkit/, ...
+    const phaseFolder = path.join(this.projectFolder, phase, engine);
     this.ensureDir(phaseFolder);
 
-    const baseFilename = `${sanitizeFilename(urlInfo.postType)}-${sanitizeFilename(urlInfo.slug)}`;
-    const desktopPath = path.join(phaseFolder, `${baseFilename}-desktop.png`);
-    const mobilePath = path.join(phaseFolder, `${baseFilename}-mobile.png`);
+    // Subsites of a network and translations share slugs like "homepage"
+    const prefix = [urlInfo.site, urlInfo.language]
+      .filter((part): part is string => part !== undefined)
+      .map(part => `${sanitizeFilename(part)}-`)
+      .join('');
+    const baseFilename = `${prefix}${sanitizeFilename(urlInfo.postType)}-${sanitizeFilename(urlInfo.slug)}`;
+    const captures: Record<string, CaptureOutcome> = {};
+    const result: ScreenshotResult = { ...urlInfo, browser: engine, screenshots: {}, captures };
 
-    try {
-      console.log(`  Screenshotting: ${urlInfo.title} (${urlInfo.url})`);
-      
-      // Desktop screenshot
-      process.stdout.write('    Desktop... ');
-      await this.takeScreenshot(page, urlInfo.url, desktopPath, 'desktop');
-      console.log('done');
-      
-      // Mobile screenshot
-      process.stdout.write('    Mobile... ');
-      await this.takeScreenshot(page, urlInfo.url, mobilePath, 'mobile');
-      console.log('done');
+    // Capture one viewport with retries; returns the status text for the log
+    const captureViewport = async (viewport: ViewportConfig): Promise<string> => {
+      const outputPath = path.join(phaseFolder, `${baseFilename}-${sanitizeFilename(viewport.name)}.png`);
 
-    } catch (error) {
-      console.error(`\n    Error: ${error instanceof Error ? error.message : String(error)}`);
-    } finally {
-      await context.close();
-    }
+      for (let attempt = 1; ; attempt++) {
+        let context: BrowserContext | undefined;
+        try {
+          context = await this.newContext(browser, engine, viewport, urlInfo.url);
+          const page = await context.newPage();
+          const { maskedRegions, consent, states, components } = await this.takeScreenshot(page, urlInfo, outputPath, viewport, log);
+
+          result.screenshots[viewport.name] = path.relative(this.projectFolder, outputPath);
+          captures[viewport.name] = { status: 'ok', attempts: attempt };
+          if (consent) {
+            result.consent = { ...result.consent, [viewport.name]: consent };
+          }
+          for (const state of states) {
+            const key = captureKey(viewport.name, state.name);
+            result.screenshots[key] = path.relative(this.projectFolder, state.outputPath);
+            if (state.maskedRegions.length > 0) {
+              result.maskedRegions = { ...result.maskedRegions, [key]: state.maskedRegions };
+            }
+          }
+
+          const componentEntries = Object.entries(components);
+          if (componentEntries.length > 0) {
+            result.componentScreenshots = {
+              ...result.componentScreenshots,
+              [viewport.name]: Object.fromEntries(componentEntries
+                .map(([name, component]) => [name, path.relative(this.projectFolder, component.outputPath)])),
+            };
+            result.componentRegions = {
+              ...result.componentRegions,
+              [viewport.name]: Object.fromEntries(componentEntries.map(([name, component]) => [name, component.region])),
+            };
+          }
+
+          const notes: string[] = [];
+          if (componentEntries.length > 0) {
+            notes.push(`${componentEntries.length} of ${Object.keys(this.components).length} components`);
+          }
+          if (states.length > 0) {
+            notes.push(`${states.length} interaction screenshot${states.length === 1 ? '' : 's'}`);
+          }
+          if (maskedRegions.length > 0) {
+            result.maskedRegions = { ...result.maskedRegions, [viewport.name]: maskedRegions };
+            notes.push(`${maskedRegions.length} masked`);
+          }
+          return notes.length > 0 ? `done (${notes.join(', ')})` : 'done';
+        } catch (error) {
+          const outcome = toCaptureOutcome(error, attempt);
+
+          if (attempt > this.retries || !isRetryable(outcome)) {
+            captures[viewport.name] = outcome;
+            return `failed (${outcome.status}): ${outcome.error}`;
+          }
 
-    return {
-      ...urlInfo,
-      desktopPath: path.relative(this.projectFolder, desktopPath),
-      mobilePath: path.relative(this.projectFolder, mobilePath),
+          const delay = this.retryDelayMs * 2 ** (attempt - 1);
+          log.log(`    ${viewportLabel(viewport.name)}: ${outcome.status}, retrying in ${(delay / 1000).toFixed(1)}s (attempt ${attempt + 1} of ${this.retries + 1})`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        } finally {
+          await context?.close();
+        }
+      }
     };
+
+    // Capture a viewport again in a fresh context; whatever differs is noise
+    const repeatViewport = async (viewport: ViewportConfig): Promise<string> => {
+      const outputPath = path.join(phaseFolder, `${baseFilename}-${sanitizeFilename(viewport.name)}-repeat.png`);
+      let context: BrowserContext | undefined;
+      try {
+        context = await this.newContext(browser, engine, viewport, urlInfo.url);
+        const page = await context.newPage();
+        const { states } = await this.takeScreenshot(page, urlInfo, outputPath, viewport, log);
+        result.repeatScreenshots = {
+          ...result.repeatScreenshots,
+          [viewport.name]: path.relative(this.projectFolder, outputPath),
+        };
+        for (const state of states) {
+          result.repeatScreenshots[captureKey(viewport.name, state.name)] = path.relative(this.projectFolder, state.outputPath);
+        }
+        return ', repeated';
+      } catch (error) {
+        return `, repeat failed (${toCaptureOutcome(error, 1).status})`;
+      } finally {
+        await context?.close();
+      }
+    };
+
+    const captureAndLog = async (viewport: ViewportConfig): Promise<void> => {
+      let status = await captureViewport(viewport);
+      if (this.repeatCapture && result.screenshots[viewport.name]) {
+        status += await repeatViewport(viewport);
+      }
+      log.log(`    ${viewportLabel(viewport.name)} (${viewportSize(viewport)})... ${status}`);
+    };
+
+    const engineLabel = this.browserEngines.length > 1 ? ` [${engine}]` : '';
+    log.log(`  Screenshotting: ${urlInfo.title} (${urlInfo.url})${engineLabel}`);
+
+    if (this.parallelViewports) {
+      // All viewports loading at once
+      await Promise.all(this.viewports.map(captureAndLog));
+    } else {
+      for (const viewport of this.viewports) {
+        await captureAndLog(viewport);
+      }
+    }
+
+    return result;
   }
 
   /**
-   * Take screenshots for all URLs
+   * Throttle requests to the site's host through the shared rate limiter
+   */
+  private async applyRateLimit(context: BrowserContext, pageUrl: string, limiter: RateLimiter): Promise<void> {
+    const host = new URL(pageUrl).host;
+
+    await context.route(
+      (url) => url.host === host,
+      async (route) => {
+        await limiter.acquire();
+        await route.fallback();
+      }
+    );
+  }
+
+  /**
+   * Take screenshots for all URLs with every configured engine
+   * With concurrency > 1, URL/engine pairs are captured in parallel; output and results stay in URL order.
    */
   async screenshotAll(
     urls: UrlToScreenshot[],
     phase: 'before' | 'after'
   ): Promise<ScreenshotResult[]> {
-    console.log(`\nTaking ${phase.toUpperCase()} screenshots (${urls.length} URLs)...\n`);
+    const parallel = this.concurrency > 1 ? ` with ${this.concurrency} workers` : '';
+    const engines = this.browserEngines.length > 1 ? `, ${this.browserEngines.join('/')}` : '';
+    console.log(`\nTaking ${phase.toUpperCase()} screenshots (${urls.length} URLs${engines}${parallel})...\n`);
     
-    const results: ScreenshotResult[] = [];
-    
-    for (let i = 0; i < urls.length; i++) {
-      const url = urls[i];
-      console.log(`[${i + 1}/${urls.length}] ${url.postType}: ${url.slug}`);
-      const result = await this.screenshotUrl(url, phase);
-      results.push(result);
-    }
+    const output = new OrderedOutput();
+    const tasks = urls.flatMap(url => this.browserEngines.map(engine => ({ url, engine })));
+
+    const results = await runPool(tasks, this.concurrency, async ({ url, engine }, i) => {
+      const log = output.logger(i);
+      try {
+        log.log(`[${i + 1}/${tasks.length}] ${url.postType}: ${url.slug}`);
+        return await this.screenshotUrl(url, engine, phase, log);
+      } finally {
+        output.finish(i);
+      }
+    });
     
     console.log(`\n${phase.toUpperCase()} screenshots complete!`);
     return results;
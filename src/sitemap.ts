@@ -0,0 +1,272 @@
+/**
+ * Sitemap Module
+ * Discovers URLs from XML sitemaps when the REST API is blocked or as an extra source
+ */
+
+import { UrlToScreenshot, WPPost } from './types';
+import { normalizeUrl, requestHeaders, slugFromParts } from './wordpress-api';
+import { ResolvedSampling, resolveSampling, samplePosts, strategyFor } from './sampling';
+
+/**
+ * Sitemap locations tried when robots.txt doesn't list any
+ * (WordPress core, then Yoast/Rank Math and generic plugins)
+ */
+const SITEMAP_CANDIDATES = ['/wp-sitemap.xml', '/sitemap_index.xml', '/sitemap.xml'];
+
+/** Maximum nesting of sitemap indexes */
+const MAX_SITEMAP_DEPTH = 3;
+
+/**
+ * One URL listed in a sitemap
+ */
+export interface SitemapEntry {
+  url: string;
+  /** Post type derived from the sub-sitemap name */
+  postType: string;
+  lastmod?: string;
+}
+
+/**
+ * Options for buildSitemapUrlList
+ */
+export interface SitemapOptions {
+  /** Sitemap to start from (default: discovered via robots.txt and common locations) */
+  sitemapUrl?: string;
+  /** Number of URLs per post type (recent, oldest and random sampling) */
+  postsPerType?: number;
+  /** Only include these post types */
+  postTypes?: string[];
+  sampling?: ResolvedSampling;
+}
+
+/**
+ * Fetch a text resource, undefined if unavailable
+ */
+async function fetchText(url: string): Promise<string | undefined> {
+  try {
+    const response = await fetch(url, {
+      headers: requestHeaders('application/xml,text/xml,text/plain,*/*'),
+    });
+    return response.ok ? await response.text() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decode the XML entities allowed in sitemap URLs
+ */
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Get the text of the first child element with a tag name
+ */
+function childText(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * Get all blocks of an element (e.g. every <url>...</url>)
+ */
+function blocks(xml: string, tag: string): string[] {
+  return xml.match(new RegExp(`<${tag}>[\\s\\S]*?</${tag}>`, 'g')) ?? [];
+}
+
+/**
+ * Derive a post type from a sub-sitemap URL
+ * wp-sitemap-posts-page-1.xml -> page, wp-sitemap-taxonomies-category-1.xml -> category,
+ * wp-sitemap-users-1.xml -> author, product-sitemap2.xml (Yoast/Rank Math) -> product
+ */
+export function postTypeFromSitemap(sitemapUrl: string): string {
+  let name: string;
+  try {
+    name = new URL(sitemapUrl).pathname.split('/').pop() ?? '';
+  } catch {
+    return 'sitemap';
+  }
+  name = name.replace(/\.xml(\.gz)?$/i, '');
+
+  const core = name.match(/^wp-sitemap-(?:posts|taxonomies)-(.+?)-\d+$/);
+  if (core) return core[1];
+  if (/^wp-sitemap-users-\d+$/.test(name)) return 'author';
+
+  const plugin = name.match(/^(.+?)[-_]sitemap\d*$/);
+  if (plugin) return plugin[1];
+
+  return 'sitemap';
+}
+
+/**
+ * Find the sitemap roots of a site: robots.txt Sitemap lines, else the first common location that exists
+ */
+export async function discoverSitemaps(siteUrl: string): Promise<string[]> {
+  const normalizedUrl = normalizeUrl(siteUrl);
+
+  const robots = await fetchText(`${normalizedUrl}/robots.txt`);
+  const fromRobots = (robots ?? '')
+    .split(/\r?\n/)
+    .map(line => line.match(/^\s*sitemap:\s*(\S+)/i)?.[1])
+    .filter((url): url is string => url !== undefined);
+
+  if (fromRobots.length > 0) {
+    return [...new Set(fromRobots)];
+  }
+
+  for (const candidate of SITEMAP_CANDIDATES) {
+    const xml = await fetchText(`${normalizedUrl}${candidate}`);
+    if (xml && /<(sitemapindex|urlset)[\s>]/.test(xml)) {
+      return [`${normalizedUrl}${candidate}`];
+    }
+  }
+
+  return [];
+}
+
+/**
+ * List the sitemaps of a sitemap index (empty if the sitemap is not an index)
+ */
+export async function fetchSitemapIndex(sitemapUrl: string): Promise<string[]> {
+  const xml = await fetchText(sitemapUrl);
+  if (!xml || !/<sitemapindex[\s>]/.test(xml)) {
+    return [];
+  }
+  return blocks(xml, 'sitemap')
+    .map(block => childText(block, 'loc'))
+    .filter((loc): loc is string => loc !== undefined);
+}
+
+/**
+ * Read all URL entries of a sitemap, following nested sitemap indexes
+ */
+export async function fetchSitemapEntries(
+  sitemapUrl: string,
+  visited: Set<string> = new Set(),
+  depth: number = 0
+): Promise<SitemapEntry[]> {
+  if (visited.has(sitemapUrl) || depth > MAX_SITEMAP_DEPTH) {
+    return [];
+  }
+  visited.add(sitemapUrl);
+
+  const xml = await fetchText(sitemapUrl);
+  if (!xml) {
+    console.warn(`Could not fetch sitemap: ${sitemapUrl}`);
+    return [];
+  }
+
+  if (/<sitemapindex[\s>]/.test(xml)) {
+    const entries: SitemapEntry[] = [];
+    for (const block of blocks(xml, 'sitemap')) {
+      const loc = childText(block, 'loc');
+      if (loc) {
+        entries.push(...await fetchSitemapEntries(loc, visited, depth + 1));
+      }
+    }
+    return entries;
+  }
+
+  const postType = postTypeFromSitemap(sitemapUrl);
+  return blocks(xml, 'url')
+    .map(block => ({ url: childText(block, 'loc') ?? '', postType, lastmod: childText(block, 'lastmod') }))
+    .filter(entry => entry.url.startsWith('http'));
+}
+
+/**
+ * Decode a percent-encoded URL path, keeping it as is if malformed
+ */
+function decodePath(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Slug for a sitemap URL: its path segments joined (unique across nested pages)
+ */
+function slugFromUrl(url: string): string {
+  const parsed = new URL(url);
+  const segments = parsed.pathname.split('/').filter(segment => segment.length > 0);
+  return slugFromParts(segments.map(decodePath), parsed);
+}
+
+/**
+ * Build the list of URLs to screenshot from the site's sitemaps
+ * Entries are sampled per post type like REST posts (newest by lastmod first).
+ */
+export async function buildSitemapUrlList(
+  siteUrl: string,
+  options: SitemapOptions = {}
+): Promise<UrlToScreenshot[]> {
+  const normalizedUrl = normalizeUrl(siteUrl);
+  const { postsPerType = 5, postTypes, sampling = resolveSampling() } = options;
+
+  const roots = options.sitemapUrl ? [options.sitemapUrl] : await discoverSitemaps(siteUrl);
+  if (roots.length === 0) {
+    console.warn('No sitemap found (robots.txt, wp-sitemap.xml, sitemap_index.xml, sitemap.xml)');
+  }
+
+  const visited = new Set<string>();
+  const entries: SitemapEntry[] = [];
+  for (const root of roots) {
+    console.log(`Reading sitemap: ${root}`);
+    entries.push(...await fetchSitemapEntries(root, visited));
+  }
+
+  // Group by post type, as posts so the sampling strategies apply
+  const byPostType = new Map<string, WPPost[]>();
+  entries.forEach((entry, index) => {
+    // The homepage is always captured
+    if (slugFromUrl(entry.url) === 'homepage' || (postTypes && !postTypes.includes(entry.postType))) {
+      return;
+    }
+    const posts = byPostType.get(entry.postType) ?? [];
+    posts.push({
+      id: index + 1,
+      slug: slugFromUrl(entry.url),
+      link: entry.url,
+      title: { rendered: decodePath(new URL(entry.url).pathname) },
+      type: entry.postType,
+      date: entry.lastmod,
+    });
+    byPostType.set(entry.postType, posts);
+  });
+
+  const urls: UrlToScreenshot[] = [{
+    url: normalizedUrl,
+    slug: 'homepage',
+    postType: 'homepage',
+    title: 'Homepage',
+  }];
+
+  for (const [postType, posts] of byPostType) {
+    const strategy = strategyFor(sampling, postType);
+    const newestFirst = [...posts].sort((a, b) => (b.date ?? '').localeCompare(a.date ?? ''));
+    const ordered = strategy === 'oldest' ? newestFirst.reverse() : newestFirst;
+    const selected = samplePosts(ordered, strategy, postsPerType, sampling.seed, postType);
+
+    console.log(`Found ${posts.length} ${postType} URLs in sitemaps, selected ${selected.length} (${strategy})`);
+
+    for (const post of selected) {
+      urls.push({
+        url: post.link,
+        slug: post.slug,
+        postType,
+        title: post.title.rendered,
+      });
+    }
+  }
+
+  return urls;
+}
@@ -0,0 +1,108 @@
+/**
+ * Stabilize Module
+ * Deterministic rendering: freezes everything that changes between two loads of an unchanged page
+ */
+
+import { BrowserContext, Page } from 'playwright';
+import { StabilizeConfig } from './types';
+
+/**
+ * Defaults when stabilization is enabled without settings
+ */
+export const DEFAULT_STABILIZE: Required<StabilizeConfig> = {
+  time: '2024-01-01T12:00:00Z',
+  seed: 1,
+};
+
+/**
+ * Styles that stop animations, transitions, blinking carets and scrollbars
+ */
+const STABILIZE_CSS = `
+*, *::before, *::after {
+  animation: none !important;
+  transition: none !important;
+  caret-color: transparent !important;
+  scroll-behavior: auto !important;
+}
+html { scrollbar-width: none !important; }
+::-webkit-scrollbar { display: none !important; }
+`;
+
+/**
+ * Resolve the stabilize option (undefined when disabled)
+ */
+export function resolveStabilize(
+  option: boolean | StabilizeConfig | undefined
+): Required<StabilizeConfig> | undefined {
+  if (!option) {
+    return undefined;
+  }
+  return { ...DEFAULT_STABILIZE, ...(option === true ? {} : option) };
+}
+
+/**
+ * Freeze the clock and seed Math.random for every page of a context
+ * Must run before the first navigation.
+ */
+export async function stabilizeContext(context: BrowserContext, config: StabilizeConfig): Promise<void> {
+  const { time, seed } = { ...DEFAULT_STABILIZE, ...config };
+
+  // Date is fixed, timers keep running so the page still loads normally
+  await context.clock.setFixedTime(time);
+
+  await context.addInitScript((initialSeed: number) => {
+    // mulberry32: small, fast and good enough for layout randomness
+    let state = initialSeed >>> 0;
+    Math.random = () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }, seed);
+}
+
+/**
+ * Settle a loaded page right before the screenshot
+ * Stops animations, pauses videos and GIFs on their first frame, hides scrollbars
+ * and waits for web fonts.
+ */
+export async function stabilizePage(page: Page): Promise<void> {
+  await page.addStyleTag({ content: STABILIZE_CSS });
+
+  await page.evaluate(async () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const doc = (globalThis as any).document;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    for (const video of Array.from(doc.querySelectorAll('video')) as any[]) {
+      video.pause();
+      video.currentTime = 0;
+    }
+
+    // Replace animated GIFs with a still of their first frame
+    // (cross-origin images without CORS cannot be read and stay animated)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    for (const img of Array.from(doc.querySelectorAll('img')) as any[]) {
+      if (!/\.gif($|\?)/i.test(img.currentSrc || img.src) || !img.complete || img.naturalWidth === 0) {
+        continue;
+      }
+      try {
+        const canvas = doc.createElement('canvas');
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        canvas.getContext('2d').drawImage(img, 0, 0);
+        img.srcset = '';
+        img.src = canvas.toDataURL('image/png');
+      } catch {
+        // Tainted canvas
+      }
+    }
+
+    await doc.fonts.ready;
+  });
+
+  // Let replaced images and the style changes render
+  await page.waitForTimeout(100);
+}
@@ -0,0 +1,109 @@
+/**
+ * Threshold Module
+ * Classifies diff results as pass/warn/fail
+ */
+
+import {
+  ComparisonResult,
+  DiffResult,
+  DiffStatus,
+  ThresholdConfig,
+  ThresholdLimits,
+  ViewportType,
+} from './types';
+import { matchesUrlPattern } from './patterns';
+import { baseViewport } from './viewports';
+
+/**
+ * Defaults: any changed pixel is a warning, nothing fails unless configured
+ */
+export const DEFAULT_THRESHOLDS: ThresholdLimits = {
+  warnPixels: 0,
+  dimensionChange: 'warn',
+  captureFailure: 'fail',
+};
+
+const STATUS_ORDER: DiffStatus[] = ['pass', 'warn', 'fail'];
+
+/**
+ * Return the more severe of two statuses
+ */
+export function worstStatus(a: DiffStatus, b: DiffStatus): DiffStatus {
+  return STATUS_ORDER.indexOf(a) >= STATUS_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Resolve the effective limits for one comparison/viewport
+ */
+export function resolveThresholds(
+  config: ThresholdConfig | undefined,
+  comparison: Pick<ComparisonResult, 'url' | 'postType' | 'browser'>,
+  viewport: ViewportType
+): ThresholdLimits {
+  const { rules = [], ...defaults } = config ?? {};
+  const limits: ThresholdLimits = { ...DEFAULT_THRESHOLDS, ...defaults };
+
+  for (const rule of rules) {
+    const { viewport: ruleViewport, browser, postType, url, ...ruleLimits } = rule;
+
+    if (ruleViewport !== undefined && ruleViewport !== baseViewport(viewport)) continue;
+    if (browser !== undefined && browser !== comparison.browser) continue;
+    if (postType !== undefined && postType !== comparison.postType) continue;
+    if (url !== undefined && !matchesUrlPattern(comparison.url, url)) continue;
+
+    Object.assign(limits, ruleLimits);
+  }
+
+  return limits;
+}
+
+/**
+ * Classify a single diff against limits
+ */
+export function classifyDiff(diff: DiffResult, limits: ThresholdLimits): DiffStatus {
+  const exceeds = (value: number, limit?: number) => limit !== undefined && value > limit;
+
+  // With row alignment, content that only moved doesn't count
+  const diffPercentage = diff.shift?.adjustedDiffPercentage ?? diff.diffPercentage;
+  const diffPixels = diff.shift?.adjustedDiffPixels ?? diff.diffPixels;
+
+  let status: DiffStatus = 'pass';
+
+  if (exceeds(diffPercentage, limits.warnPercentage) || exceeds(diffPixels, limits.warnPixels)) {
+    status = 'warn';
+  }
+  if (exceeds(diffPercentage, limits.failPercentage) || exceeds(diffPixels, limits.failPixels)) {
+    status = 'fail';
+  }
+  if (diff.dimensionsDiffer && limits.dimensionChange) {
+    status = worstStatus(status, limits.dimensionChange);
+  }
+
+  return status;
+}
+
+/**
+ * Classify all viewports of a comparison, setting `status` on each diff and on the comparison
+ * Failed captures count with the `captureFailure` status.
+ */
+export function classifyComparison(
+  comparison: ComparisonResult,
+  config: ThresholdConfig | undefined
+): DiffStatus {
+  let status: DiffStatus = 'pass';
+
+  for (const [viewport, diff] of Object.entries(comparison.diff) as [ViewportType, DiffResult][]) {
+    diff.status = classifyDiff(diff, resolveThresholds(config, comparison, viewport));
+    status = worstStatus(status, diff.status);
+  }
+
+  for (const viewport of comparison.failedCaptures ?? []) {
+    const { captureFailure } = resolveThresholds(config, comparison, viewport);
+    if (captureFailure) {
+      status = worstStatus(status, captureFailure);
+    }
+  }
+
+  comparison.status = status;
+  return status;
+}
@@ -2,6 +2,8 @@
  * TypeScript interfaces for WordPress Screenshot Diff Tool
  */
 
+import type { BrowserContext } from 'playwright';
+
 // WordPress REST API Types
 export interface WPPostType {
   name: string;
@@ -11,7 +13,8 @@ export interface WPPostType {
   rest_namespace: string;
   hierarchical: boolean;
   viewable?: boolean; // Optional - not always returned by the API
-  has_archive?: boolean;
+  /** true, or the archive slug if it differs from the post type slug */
+  has_archive?: boolean | string;
   _links?: Record<string, unknown>;
 }
 
@@ -27,6 +30,116 @@ export interface WPPost {
     rendered: string;
   };
   type: string;
+  /** Publish date (site time zone) */
+  date?: string;
+  /** Page template file, empty for the default template */
+  template?: string;
+}
+
+export interface WPTaxonomy {
+  name: string;
+  slug: string;
+  rest_base: string;
+  /** Post types the taxonomy is registered for */
+  types: string[];
+  hierarchical: boolean;
+}
+
+export interface WPTaxonomiesResponse {
+  [key: string]: WPTaxonomy;
+}
+
+export interface WPTerm {
+  id: number;
+  slug: string;
+  name: string;
+  link: string;
+  count: number;
+}
+
+export interface WPUser {
+  id: number;
+  slug: string;
+  name: string;
+  link: string;
+}
+
+// Kinds of pages that aren't single posts
+// - taxonomy: term archives (categories, tags, custom taxonomies)
+// - author: author archives
+// - archive: post type archives (has_archive)
+// - search: a search results page
+// - 404: a URL that doesn't exist, for the 404 template
+// - woocommerce: shop, product category, product and cart/checkout pages of a WooCommerce store
+export type PageGroupKind = 'taxonomy' | 'author' | 'archive' | 'search' | '404' | 'woocommerce';
+
+// Group of non-post pages, selectable next to post types
+export interface PageGroup {
+  /** Selection key, used like a post type slug (e.g. "category", "author", "product-archive") */
+  slug: string;
+  name: string;
+  kind: PageGroupKind;
+  /** Taxonomy of a taxonomy group */
+  taxonomy?: WPTaxonomy;
+  /** Post type of an archive group */
+  postType?: WPPostType;
+}
+
+// How the posts of a post type are picked
+// - all: every post (paginated)
+// - recent/oldest: the newest/oldest N posts
+// - random: N posts at random across the whole archive (seeded)
+// - per-template: the newest post of every template
+export type SamplingStrategy = 'all' | 'recent' | 'oldest' | 'random' | 'per-template';
+
+export const SAMPLING_STRATEGIES: SamplingStrategy[] = ['all', 'recent', 'oldest', 'random', 'per-template'];
+
+// Where URLs are discovered
+export type UrlSource = 'rest' | 'sitemap';
+
+export const URL_SOURCES: UrlSource[] = ['rest', 'sitemap'];
+
+// Post statuses that can be fetched with an Application Password
+export type PostStatus = 'publish' | 'private' | 'draft' | 'pending' | 'future';
+
+export const POST_STATUSES: PostStatus[] = ['publish', 'private', 'draft', 'pending', 'future'];
+
+// User name and password for HTTP Basic auth
+export interface HttpCredentials {
+  username: string;
+  password: string;
+}
+
+// Authentication (runtime only, never written to run.json)
+export interface AuthConfig {
+  /** WordPress user name, for the Application Password and the login form */
+  username?: string;
+  /** Application Password for REST API requests (Users > Profile > Application Passwords) */
+  applicationPassword?: string;
+  /** Account password: logs in via wp-login.php and captures the logged-in view */
+  password?: string;
+  /** Login page (default: <site>/wp-login.php) */
+  loginUrl?: string;
+  /** Post statuses to fetch; any other than publish needs an Application Password and a login (default: publish) */
+  statuses?: PostStatus[];
+  /** HTTP Basic auth for password-protected staging environments */
+  httpBasic?: HttpCredentials;
+}
+
+// Multisite network mode
+export interface MultisiteConfig {
+  /** Subsite URLs (default: discovered via /wp/v2/sites, else the network sitemap) */
+  sites?: string[];
+}
+
+// Sampling configuration
+export interface SamplingConfig {
+  /** Strategy for post types without their own (default: 'random') */
+  strategy?: SamplingStrategy;
+  /** Seed for random sampling (generated and recorded in run.json if not set) */
+  seed?: number;
+  /** Strategy per post type slug */
+  postTypes?: Record<string, SamplingStrategy>;
 }
 
 // Application Types
@@ -35,6 +148,24 @@ export interface UrlToScreenshot {
   slug: string;
   postType: string;
   title: string;
+  /** HTTP status the page is expected to return, if not 2xx/3xx (e.g. 404 for the 404 template) */
+  expectedStatus?: number;
+  /** Subsite of a multisite network (e.g. "example.com/de"), unset for single sites */
+  site?: string;
+  /** Language code on multilingual sites (e.g. "de") */
+  language?: string;
+  /** Requested in the capture's browser context before the page, so the cart isn't empty (WooCommerce cart and checkout) */
+  addToCartUrl?: string;
+}
+
+// URL supplied by the user (config, flag or URL file)
+export interface ExtraUrl {
+  /** Full URL, or a path relative to the site URL */
+  url: string;
+  /** Title shown in the report (default: the path) */
+  title?: string;
+  /** Report group, used like a post type (default: "custom") */
+  group?: string;
 }
 
 export interface ScreenshotResult {
@@ -42,8 +173,136 @@ export interface ScreenshotResult {
   slug: string;
   postType: string;
   title: string;
-  desktopPath: string;
-  mobilePath: string;
+  /** Subsite of a multisite network */
+  site?: string;
+  /** Language code on multilingual sites */
+  language?: string;
+  /** Browser engine the screenshots were taken with */
+  browser: BrowserEngine;
+  /** Relative screenshot path per viewport and interaction screenshot (only set for successful captures) */
+  screenshots: Record<ViewportType, string>;
+  /** Page regions of masked elements per viewport (CSS pixels, document coordinates) */
+  maskedRegions?: Record<ViewportType, Region[]>;
+  /** Capture outcome per viewport */
+  captures?: Record<ViewportType, CaptureOutcome>;
+  /** Relative path of a second capture per viewport (noise baseline, before phase only) */
+  repeatScreenshots?: Record<ViewportType, string>;
+  /** Noise between the two before captures per viewport */
+  noise?: Record<ViewportType, NoiseResult>;
+  /** Cookie banner handling per viewport */
+  consent?: Record<ViewportType, ConsentOutcome>;
+  /** Relative element screenshot path per viewport and component (components found on the page) */
+  componentScreenshots?: Record<ViewportType, Record<string, string>>;
+  /** Page region of each component screenshot per viewport (CSS pixels, document coordinates) */
+  componentRegions?: Record<ViewportType, Record<string, Region>>;
+}
+
+// Pixels that change between two captures of the unchanged page
+export interface NoiseResult {
+  /** Relative path of the noise mask (noisy pixels opaque, all others transparent) */
+  maskPath: string;
+  noisePixels: number;
+  /** Percentage of noisy pixels (0-100) */
+  noisePercentage: number;
+}
+
+// Outcome of capturing one viewport
+export type CaptureStatus = 'ok' | 'timeout' | 'http-error' | 'navigation-error' | 'interaction-error';
+
+export interface CaptureOutcome {
+  status: CaptureStatus;
+  /** Error message for failed captures */
+  error?: string;
+  /** HTTP status of the main document, if a response was received */
+  httpStatus?: number;
+  /** Number of attempts made (1 + retries used) */
+  attempts: number;
+}
+
+// Rectangle in full-page screenshot coordinates
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Rectangle excluded from the diff
+export interface IgnoreRegion extends Region {
+  /** Only ignore in this viewport (default: all viewports) */
+  viewport?: ViewportType;
+}
+
+// Elements to mask and regions to ignore
+export interface MaskTargets {
+  /** CSS selectors of elements to mask before capture */
+  selectors?: string[];
+  /** Rectangles excluded from diff pixel counts */
+  regions?: IgnoreRegion[];
+}
+
+// Masks that only apply to matching URLs
+export interface MaskRule extends MaskTargets {
+  /** URL glob (path globs start with "/") */
+  url: string;
+}
+
+// Masking configuration: site-wide targets plus per-URL rules
+export interface MaskConfig extends MaskTargets {
+  /** 'mask' paints over elements, 'hide' makes them invisible (default: 'mask') */
+  strategy?: 'mask' | 'hide';
+  rules?: MaskRule[];
+}
+
+// Page components captured as element screenshots: name -> CSS selector (first match)
+export type ComponentConfig = Record<string, string>;
+
+// How a component changed; added/removed when only one phase has the element,
+// failed when its screenshots couldn't be compared
+export type ComponentStatus = 'changed' | 'unchanged' | 'added' | 'removed' | 'failed';
+
+export interface ComponentDiff {
+  status: ComponentStatus;
+  /** Diff of the element screenshots (components found in both phases) */
+  diff?: DiffResult;
+  /** Error message for failed comparisons */
+  error?: string;
+}
+
+// Steps run on a page before capture
+// - click/hover: the first element matching selector
+// - fill: type value into the field matching selector
+// - waitFor: wait until the element matching selector is visible
+// - press: press the key in value (e.g. "Escape"), on the element matching selector if set
+// - scrollTo: scroll the element matching selector into view
+// - evaluate: run the JavaScript in value in the page
+export type InteractionAction = 'click' | 'hover' | 'fill' | 'waitFor' | 'press' | 'scrollTo' | 'evaluate';
+
+export const INTERACTION_ACTIONS: InteractionAction[] = ['click', 'hover', 'fill', 'waitFor', 'press', 'scrollTo', 'evaluate'];
+
+export interface InteractionStep {
+  action: InteractionAction;
+  selector?: string;
+  value?: string;
+  /** Name of a screenshot taken after this step, diffed like a viewport capture */
+  screenshot?: string;
+}
+
+// Steps for matching pages (a rule without url or postType matches every page)
+export interface InteractionRule {
+  /** URL glob or regex:... pattern */
+  url?: string;
+  /** Post type or page group slug */
+  postType?: string;
+  steps: InteractionStep[];
+}
+
+// Deterministic rendering: freezes time, randomness, animations and media before capture
+export interface StabilizeConfig {
+  /** Fixed time for Date in the page (ISO date string) */
+  time?: string;
+  /** Seed for Math.random */
+  seed?: number;
 }
 
 // Diff comparison result
@@ -62,12 +321,126 @@ export interface DiffResult {
   beforeDimensions: { width: number; height: number };
   /** Dimensions of the after image */
   afterDimensions: { width: number; height: number };
+  /** Classification against the configured thresholds */
+  status?: DiffStatus;
+  /** Regions excluded from diffPixels (masked elements and ignore regions) */
+  ignoredRegions?: Region[];
+  /** Changed pixels excluded because they are noise (noise baseline only) */
+  noisePixels?: number;
+  /** Row alignment of the two images (shift diff mode) */
+  shift?: ShiftResult;
+}
+
+// How screenshots are compared
+// - pixel: pixel by pixel at the same coordinates
+// - shift: rows are aligned first, so inserted or removed blocks don't mark everything below as changed
+export type DiffMode = 'pixel' | 'shift';
+
+export const DIFF_MODES: DiffMode[] = ['pixel', 'shift'];
+
+// Rows that differ after alignment
+// - inserted: rows only in the after screenshot
+// - removed: rows only in the before screenshot
+// - modified: rows in both whose content changed
+export type DiffBandKind = 'inserted' | 'removed' | 'modified';
+
+export interface DiffBand {
+  kind: DiffBandKind;
+  /** Rows of the band in the before screenshot (height 0 for inserted bands) */
+  beforeY: number;
+  beforeHeight: number;
+  /** Rows of the band in the after screenshot (height 0 for removed bands) */
+  afterY: number;
+  afterHeight: number;
+  /** Changed pixels of the band */
+  diffPixels: number;
+}
+
+// Result of aligning the rows of a before/after pair
+export interface ShiftResult {
+  bands: DiffBand[];
+  /** Rows matched at a different position, i.e. moved by inserted or removed bands */
+  shiftedRows: number;
+  /** Changed pixels of all bands; content that only moved doesn't count */
+  adjustedDiffPixels: number;
+  /** adjustedDiffPixels as a percentage of all pixels (0-100) */
+  adjustedDiffPercentage: number;
+}
+
+// Threshold classification of a comparison
+export type DiffStatus = 'pass' | 'warn' | 'fail';
+
+// Limits on diffPercentage/diffPixels; a diff above a limit gets that status
+export interface ThresholdLimits {
+  /** Warn when diffPercentage is above this value (0-100) */
+  warnPercentage?: number;
+  /** Fail when diffPercentage is above this value (0-100) */
+  failPercentage?: number;
+  /** Warn when diffPixels is above this value */
+  warnPixels?: number;
+  /** Fail when diffPixels is above this value */
+  failPixels?: number;
+  /** Status when before/after dimensions differ */
+  dimensionChange?: DiffStatus;
+  /** Status when a before or after capture failed */
+  captureFailure?: DiffStatus;
+}
+
+// Limits that only apply to matching comparisons
+export interface ThresholdRule extends ThresholdLimits {
+  /** Only apply to this viewport */
+  viewport?: ViewportType;
+  /** Only apply to this browser engine */
+  browser?: BrowserEngine;
+  /** Only apply to this post type */
+  postType?: string;
+  /** Only apply to URLs matching this glob (path globs start with "/") */
+  url?: string;
+}
+
+// Threshold configuration: defaults plus rules (later matching rules win)
+export interface ThresholdConfig extends ThresholdLimits {
+  rules?: ThresholdRule[];
 }
 
 // Cookie configuration
 export interface CookieConfig {
   mode: 'auto' | 'custom' | 'none';
   customText?: string;
+  /** Consent given through consent management platforms (default: accept) */
+  action?: ConsentAction;
+}
+
+// Consent given on cookie banners
+export type ConsentAction = 'accept' | 'reject';
+
+export const CONSENT_ACTIONS: ConsentAction[] = ['accept', 'reject'];
+
+// How consent was given on a page
+// - api: the consent management platform's JavaScript API
+// - button: the platform's own accept/reject button
+// - cookie: its consent cookies were set and the page reloaded
+// - text: a button found by its text
+// - none: no banner found
+export type ConsentMethod = 'api' | 'button' | 'cookie' | 'text' | 'none';
+
+export interface ConsentOutcome {
+  /** Detected consent management platform (e.g. "Cookiebot") */
+  cmp?: string;
+  method: ConsentMethod;
+  action?: ConsentAction;
+  /** Button text for the text method */
+  text?: string;
+}
+
+// Cookies and local storage of a browser context (Playwright storage state)
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+// Consent given once per run on the homepage, reused by every capture of both phases
+export interface ConsentState {
+  outcome: ConsentOutcome;
+  /** Cookies and local storage after consent (no login session) */
+  storageState: StorageState;
 }
 
 // Combined screenshot comparison result
@@ -76,24 +449,54 @@ export interface ComparisonResult {
   slug: string;
   postType: string;
   title: string;
-  before: {
-    desktopPath: string;
-    mobilePath: string;
-  };
-  after: {
-    desktopPath: string;
-    mobilePath: string;
-  };
-  diff: {
-    desktop: DiffResult;
-    mobile: DiffResult;
-  };
+  /** Subsite of a multisite network */
+  site?: string;
+  /** Language code on multilingual sites */
+  language?: string;
+  /** Browser engine of both phases */
+  browser: BrowserEngine;
+  /** Relative screenshot paths per viewport */
+  before: Record<ViewportType, string>;
+  after: Record<ViewportType, string>;
+  diff: Record<ViewportType, DiffResult>;
+  /** Viewports whose before or after capture failed (no diff possible) */
+  failedCaptures?: ViewportType[];
+  /** Component comparisons per viewport */
+  components?: Record<ViewportType, Record<string, ComponentDiff>>;
+  /** Worst status across all viewports */
+  status?: DiffStatus;
 }
 
 export interface ProjectConfig {
   siteUrl: string;
   projectFolder: string;
   cookieConfig: CookieConfig;
+  viewports: ViewportConfig[];
+  browsers: BrowserEngine[];
+  thresholds?: ThresholdConfig;
+  mask?: MaskConfig;
+  /** Interaction steps of both phases */
+  interactions?: InteractionRule[];
+  /** Components captured separately in both phases */
+  components?: ComponentConfig;
+  /** How screenshots are compared (default: pixel) */
+  diffMode?: DiffMode;
+  /** Capture the before phase twice to measure noise */
+  noiseBaseline?: boolean;
+  /** How URLs were sampled, including the seed to reproduce the sample */
+  sampling?: SamplingConfig;
+  postsPerType?: number;
+  /** Deterministic rendering settings (unset when disabled) */
+  stabilize?: StabilizeConfig;
+  /** Subsites captured in a multisite run */
+  sites?: string[];
+  /** Cookie banner consent shared by both phases */
+  consent?: ConsentState;
+  /** Core, plugin and theme versions recorded in each phase */
+  inventory?: {
+    before?: SiteInventory;
+    after?: SiteInventory;
+  };
   startTime: Date;
   endTime?: Date;
   urls: UrlToScreenshot[];
@@ -102,15 +505,175 @@ export interface ProjectConfig {
   comparisons?: ComparisonResult[];
 }
 
+// Installed plugin or theme
+export interface InventoryItem {
+  /** Plugin file without ".php" (e.g. "akismet/akismet") or theme stylesheet */
+  slug: string;
+  name: string;
+  version: string;
+  active: boolean;
+}
+
+// Core, plugin and theme versions at one point in time
+export interface SiteInventory {
+  /** ISO timestamp */
+  capturedAt: string;
+  /** From the generator meta tag or feed (undefined if hidden) */
+  coreVersion?: string;
+  /** Undefined if the REST API didn't list them (needs an Application Password) */
+  plugins?: InventoryItem[];
+  themes?: InventoryItem[];
+}
+
+// What changed for one component between the phases
+export type InventoryChangeKind = 'updated' | 'installed' | 'removed' | 'activated' | 'deactivated';
+
+export interface InventoryChange {
+  component: 'core' | 'plugin' | 'theme';
+  name: string;
+  kind: InventoryChangeKind;
+  /** Version before (updated, removed) */
+  from?: string;
+  /** Version after (updated, installed) */
+  to?: string;
+}
+
+// Persisted run state (run.json in the project folder)
+export interface RunManifest
+  extends Omit<ProjectConfig, 'projectFolder' | 'startTime' | 'endTime'> {
+  /** Manifest format version */
+  version: number;
+  startTime: string;
+  endTime?: string;
+}
+
 export interface PostTypeWithPosts {
   postType: WPPostType;
   posts: WPPost[];
+  /** Language the posts were fetched in (multilingual sites) */
+  language?: string;
+}
+
+// WooCommerce store pages, detected via the Store API (wc/store/v1)
+export interface WooCommerceStore {
+  shopUrl: string;
+  /** Undefined if the cart page couldn't be found */
+  cartUrl?: string;
+  /** Undefined if the checkout page couldn't be found */
+  checkoutUrl?: string;
 }
 
-// Viewport configurations
-export const VIEWPORTS = {
+// Translation plugins whose REST API filters posts by ?lang=
+export type MultilingualPlugin = 'wpml' | 'polylang';
+
+// Languages of a multilingual site
+export interface MultilingualSite {
+  /** Detected translation plugin (undefined if only hreflang alternates were found) */
+  plugin?: MultilingualPlugin;
+  /** Language codes, default language first */
+  languages: string[];
+  /** Whether posts can be fetched per language via the REST API's lang parameter */
+  restFilter: boolean;
+}
+
+// Viewport name (key of the per-viewport records; interaction screenshots use "desktop:menu-open")
+export type ViewportType = string;
+
+// Viewport definition
+export interface ViewportConfig {
+  /** Unique name, used in file names and report tabs */
+  name: ViewportType;
+  width: number;
+  height: number;
+  /** Device pixel ratio (default: 1) */
+  deviceScaleFactor?: number;
+  /** Custom user agent string */
+  userAgent?: string;
+  /** Emulate a touch screen */
+  hasTouch?: boolean;
+  /** Emulate a mobile device (meta viewport, mobile user agent behavior) */
+  isMobile?: boolean;
+}
+
+// Built-in viewport presets, selectable by name
+export const VIEWPORTS: Record<string, Omit<ViewportConfig, 'name'>> = {
   desktop: { width: 1920, height: 1080 },
   mobile: { width: 390, height: 844 },
-} as const;
+  tablet: { width: 768, height: 1024, deviceScaleFactor: 2, hasTouch: true, isMobile: true },
+  laptop: { width: 1366, height: 768 },
+  '4k': { width: 3840, height: 2160 },
+  'mobile-landscape': { width: 844, height: 390, deviceScaleFactor: 3, hasTouch: true, isMobile: true },
+};
+
+// Viewports captured when none are configured
+export const DEFAULT_VIEWPORTS: ViewportType[] = ['desktop', 'mobile'];
+
+// Playwright browser engines
+export const BROWSER_ENGINES = ['chromium', 'firefox', 'webkit'] as const;
 
-export type ViewportType = keyof typeof VIEWPORTS;
+export type BrowserEngine = typeof BROWSER_ENGINES[number];
+
+// Engines used when none are configured
+export const DEFAULT_BROWSERS: BrowserEngine[] = ['chromium'];
+
+// User configuration (from CLI flags and/or pixelpolice.config.json/.ts)
+export interface PixelPoliceConfig {
+  /** WordPress site URL */
+  siteUrl?: string;
+  /** Post type slugs to include (defaults to all public post types) */
+  postTypes?: string[];
+  /** Number of posts to screenshot per post type (recent, oldest and random sampling) */
+  postsPerType?: number;
+  /** How posts are picked per post type */
+  sampling?: SamplingConfig;
+  /** URL sources, combined without duplicates (default: REST API, sitemaps if it is blocked) */
+  urlSources?: UrlSource[];
+  /** Sitemap to read instead of discovering one */
+  sitemapUrl?: string;
+  /** URLs captured in addition to the discovered ones */
+  extraUrls?: (string | ExtraUrl)[];
+  /** Text, CSV or JSON file with more extra URLs */
+  extraUrlFile?: string;
+  /** Glob or regex patterns (regex:...) of discovered URLs to skip */
+  exclude?: string[];
+  /** Credentials for the REST API, the login form and HTTP Basic auth */
+  auth?: AuthConfig;
+  /** Capture every subsite of a multisite network */
+  multisite?: boolean | MultisiteConfig;
+  /** Languages to capture on multilingual sites (default: all detected; false: default language only) */
+  languages?: false | string[];
+  /** Cookie banner handling */
+  cookie?: CookieConfig;
+  /** Viewports to capture: preset names or custom definitions */
+  viewports?: (ViewportType | ViewportConfig)[];
+  /** Browser engines to capture with (default: chromium) */
+  browsers?: BrowserEngine[];
+  /** Base folder for project output */
+  outputFolder?: string;
+  /** Open the report in the browser when done */
+  openReport?: boolean;
+  /** Pass/warn/fail thresholds for visual changes */
+  thresholds?: ThresholdConfig;
+  /** Elements to mask and regions to ignore */
+  mask?: MaskConfig;
+  /** Steps run on matching pages before capture, optionally with named screenshots */
+  interactions?: InteractionRule[];
+  /** Page components (header, footer, ...) captured and compared separately */
+  components?: ComponentConfig;
+  /** 'shift' aligns rows before comparing, so content moved by inserted or removed blocks doesn't count as changed */
+  diffMode?: DiffMode;
+  /** Deterministic rendering: true for defaults, or custom time/seed */
+  stabilize?: boolean | StabilizeConfig;
+  /** Capture every URL twice in the before phase and ignore pixels that differ (noise) */
+  noiseBaseline?: boolean;
+  /** Number of URLs captured in parallel (default: 1) */
+  concurrency?: number;
+  /** Capture all viewports of a URL at the same time */
+  parallelViewports?: boolean;
+  /** Politeness limit: maximum requests per second to the WordPress host */
+  maxRequestsPerSecond?: number;
+  /** Retries for failed captures (default: 1) */
+  retries?: number;
+  /** Delay before the first retry in ms; doubles with every retry (default: 2000) */
+  retryDelayMs?: number;
+}
@@ -0,0 +1,79 @@
+/**
+ * Viewport Module
+ * Resolves configured viewport names and definitions
+ */
+
+import { ViewportConfig, ViewportType, VIEWPORTS, DEFAULT_VIEWPORTS } from './types';
+
+/**
+ * Resolve preset names and custom definitions to full viewport definitions
+ * A custom definition with a preset's name extends that preset.
+ */
+export function resolveViewports(
+  entries: (ViewportType | ViewportConfig)[] = DEFAULT_VIEWPORTS
+): ViewportConfig[] {
+  return entries.map(entry => {
+    if (typeof entry === 'string') {
+      const preset = VIEWPORTS[entry];
+      if (!preset) {
+        throw new Error(`Unknown viewport "${entry}". Expected one of: ${Object.keys(VIEWPORTS).join(', ')}`);
+      }
+      return { name: entry, ...preset };
+    }
+    return { ...VIEWPORTS[entry.name], ...entry };
+  });
+}
+
+/**
+ * Separator of a viewport name and an interaction screenshot name in capture keys
+ */
+const STATE_SEPARATOR = ':';
+
+/**
+ * Capture key of an interaction screenshot ("desktop" + "menu-open" -> "desktop:menu-open")
+ */
+export function captureKey(viewport: ViewportType, state: string): ViewportType {
+  return `${viewport}${STATE_SEPARATOR}${state}`;
+}
+
+/**
+ * Viewport name of a capture key ("desktop:menu-open" -> "desktop")
+ */
+export function baseViewport(key: ViewportType): ViewportType {
+  return key.split(STATE_SEPARATOR)[0];
+}
+
+/**
+ * Capture keys of a viewport found in per-viewport records: the viewport, then its interaction screenshots
+ */
+export function captureKeys(
+  viewport: ViewportType,
+  ...records: (Record<ViewportType, unknown> | undefined)[]
+): ViewportType[] {
+  const states = records.flatMap(record => Object.keys(record ?? {}))
+    .filter(key => key.startsWith(`${viewport}${STATE_SEPARATOR}`));
+  return [viewport, ...new Set(states)];
+}
+
+/**
+ * Display label for a viewport name or capture key
+ * ("mobile-landscape" -> "Mobile Landscape", "desktop:menu-open" -> "Desktop · menu-open")
+ */
+export function viewportLabel(name: ViewportType): string {
+  const [viewport, ...state] = name.split(STATE_SEPARATOR);
+  const label = viewport
+    .split(/[-_\s]+/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+  return state.length > 0 ? `${label} · ${state.join(STATE_SEPARATOR)}` : label;
+}
+
+/**
+ * Viewport size summary ("1920x1080" or "390x844 @3x")
+ */
+export function viewportSize(viewport: ViewportConfig): string {
+  const scale = viewport.deviceScaleFactor && viewport.deviceScaleFactor !== 1
+    ? ` @${viewport.deviceScaleFactor}x`
+    : '';
+  return `${viewport.width}x${viewport.height}${scale}`;
+}
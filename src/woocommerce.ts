@@ -0,0 +1,254 @@
+/**
+ * WooCommerce Module
+ * Detects a WooCommerce store and lists its shop, category, product, cart and checkout pages
+ */
+
+import { PageGroup, UrlToScreenshot, WooCommerceStore } from './types';
+import { buildApiUrl, discoverApiRoot, fetchApiNamespaces, normalizeUrl, requestHeaders } from './wordpress-api';
+
+/**
+ * Post type and page groups the WooCommerce groups replace
+ */
+export const GENERIC_PRODUCT_SLUGS = ['product', 'product-archive', 'product_cat'];
+
+/**
+ * Page groups of a WooCommerce store
+ */
+export const WOOCOMMERCE_GROUPS: PageGroup[] = [
+  { slug: 'shop', name: 'Shop page', kind: 'woocommerce' },
+  { slug: 'product_cat', name: 'Product categories', kind: 'woocommerce' },
+  { slug: 'product-simple', name: 'Simple products', kind: 'woocommerce' },
+  { slug: 'product-variable', name: 'Variable products', kind: 'woocommerce' },
+  { slug: 'cart', name: 'Cart and checkout (with a product in the cart)', kind: 'woocommerce' },
+];
+
+/**
+ * Product as returned by the Store API
+ */
+interface WCProduct {
+  id: number;
+  name: string;
+  slug: string;
+  permalink: string;
+  type: string;
+  is_purchasable: boolean;
+  is_in_stock: boolean;
+}
+
+/**
+ * Product category as returned by the Store API
+ */
+interface WCCategory {
+  id: number;
+  name: string;
+  slug: string;
+  permalink: string;
+  count: number;
+}
+
+/**
+ * Store page as listed in the block settings (wcSettings.storePages)
+ */
+interface WCStorePage {
+  permalink?: string | false;
+}
+
+/**
+ * Fetch a Store API endpoint, undefined if unavailable
+ */
+async function fetchStoreApi<T>(apiRoot: string, route: string, params: Record<string, string | number> = {}): Promise<T | undefined> {
+  try {
+    const response = await fetch(buildApiUrl(apiRoot, `wc/store/v1/${route}`, params), {
+      headers: requestHeaders(),
+    });
+    return response.ok ? await response.json() as T : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decode the HTML entities the Store API leaves in names
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read the cart and checkout URLs from a store page's scripts
+ * Block themes print wcSettings (URI-encoded JSON with storePages), classic themes
+ * wc_add_to_cart_params with the cart URL only.
+ */
+export function parseStorePages(html: string): { cartUrl?: string; checkoutUrl?: string } {
+  for (const encoded of html.match(/wcSettings\s*=\s*(?:wcSettings\s*\|\|\s*)?JSON\.parse\(\s*decodeURIComponent\(\s*'[^']*'/g) ?? []) {
+    try {
+      const settings = JSON.parse(decodeURIComponent(encoded.replace(/^[\s\S]*'([^']*)'$/, '$1'))) as {
+        storePages?: Record<string, WCStorePage>;
+      };
+      const cartUrl = settings.storePages?.cart?.permalink || undefined;
+      const checkoutUrl = settings.storePages?.checkout?.permalink || undefined;
+      if (cartUrl || checkoutUrl) {
+        return { cartUrl, checkoutUrl };
+      }
+    } catch {
+      // Not the settings object
+    }
+  }
+
+  const cartUrl = html.match(/"cart_url":"((?:[^"\\]|\\.)*)"/)?.[1];
+  try {
+    return { cartUrl: cartUrl ? JSON.parse(`"${cartUrl}"`) as string : undefined };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Find a page by a block or shortcode in its content (e.g. "woocommerce/checkout")
+ */
+async function findPageByContent(apiRoot: string, markers: string[]): Promise<string | undefined> {
+  for (const marker of markers) {
+    try {
+      const response = await fetch(buildApiUrl(apiRoot, 'wp/v2/pages', { search: marker, _fields: 'link', per_page: 1 }), {
+        headers: requestHeaders(),
+      });
+      if (!response.ok) {
+        continue;
+      }
+      const [page] = await response.json() as { link: string }[];
+      if (page?.link) {
+        return page.link;
+      }
+    } catch {
+      // Try the next marker
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Detect a WooCommerce store via the Store API namespace and find its shop, cart and checkout pages
+ * The shop is the product archive; cart and checkout come from the shop page's scripts,
+ * else from the page containing the cart/checkout block or shortcode.
+ */
+export async function detectWooCommerce(siteUrl: string): Promise<WooCommerceStore | undefined> {
+  const normalizedUrl = normalizeUrl(siteUrl);
+  const apiRoot = await discoverApiRoot(siteUrl);
+  if (!apiRoot || !(await fetchApiNamespaces(apiRoot)).includes('wc/store/v1')) {
+    return undefined;
+  }
+
+  // ?post_type=product redirects to the shop page
+  let shopUrl = `${normalizedUrl}/?post_type=product`;
+  let html = '';
+  try {
+    const response = await fetch(shopUrl, { headers: requestHeaders('text/html,*/*') });
+    if (response.ok) {
+      shopUrl = response.url;
+      html = await response.text();
+    }
+  } catch {
+    // Keep the archive URL
+  }
+
+  const pages = parseStorePages(html);
+  return {
+    shopUrl,
+    cartUrl: pages.cartUrl ?? await findPageByContent(apiRoot, ['woocommerce/cart', 'woocommerce_cart']),
+    checkoutUrl: pages.checkoutUrl ?? await findPageByContent(apiRoot, ['woocommerce/checkout', 'woocommerce_checkout']),
+  };
+}
+
+/**
+ * Fetch the best-selling products of a type
+ */
+async function fetchProducts(apiRoot: string, type: string, limit: number): Promise<WCProduct[]> {
+  const products = await fetchStoreApi<WCProduct[]>(apiRoot, 'products', {
+    type,
+    per_page: Math.min(100, limit),
+    orderby: 'popularity',
+    order: 'desc',
+  });
+  return (products ?? []).slice(0, limit);
+}
+
+/**
+ * Build the URLs of the selected WooCommerce groups
+ * Cart and checkout get an add-to-cart URL for the best-selling simple product that
+ * can be bought, requested before every capture so both phases show the same cart.
+ */
+export async function buildWooCommerceUrls(
+  siteUrl: string,
+  store: WooCommerceStore,
+  pageGroups: PageGroup[],
+  perGroup: number = 5
+): Promise<UrlToScreenshot[]> {
+  const apiRoot = await discoverApiRoot(siteUrl);
+  const urls: UrlToScreenshot[] = [];
+  if (!apiRoot) {
+    return urls;
+  }
+
+  for (const group of pageGroups.filter(pageGroup => pageGroup.kind === 'woocommerce')) {
+    switch (group.slug) {
+      case 'shop':
+        urls.push({ url: store.shopUrl, slug: 'shop', postType: group.slug, title: 'Shop' });
+        break;
+
+      case 'product_cat': {
+        const categories = (await fetchStoreApi<WCCategory[]>(apiRoot, 'products/categories')) ?? [];
+        const selected = categories
+          .filter(category => category.count > 0 && category.permalink)
+          .sort((a, b) => b.count - a.count)
+          .slice(0, perGroup);
+        console.log(`Selected ${selected.length} product categories (most products)`);
+        for (const category of selected) {
+          urls.push({ url: category.permalink, slug: category.slug, postType: group.slug, title: decodeEntities(category.name) });
+        }
+        break;
+      }
+
+      case 'product-simple':
+      case 'product-variable': {
+        const type = group.slug.replace('product-', '');
+        const products = await fetchProducts(apiRoot, type, perGroup);
+        console.log(`Selected ${products.length} ${type} products (best-selling)`);
+        for (const product of products) {
+          urls.push({ url: product.permalink, slug: product.slug, postType: group.slug, title: decodeEntities(product.name) });
+        }
+        break;
+      }
+
+      case 'cart': {
+        const product = (await fetchProducts(apiRoot, 'simple', 20))
+          .find(candidate => candidate.is_purchasable && candidate.is_in_stock);
+        if (!product) {
+          console.warn('No simple product in stock to add to the cart; skipping cart and checkout');
+          break;
+        }
+        console.log(`Cart and checkout with: ${decodeEntities(product.name)}`);
+
+        const addToCartUrl = `${normalizeUrl(siteUrl)}/?add-to-cart=${product.id}`;
+        const pages = [
+          { slug: 'cart', title: 'Cart', url: store.cartUrl },
+          { slug: 'checkout', title: 'Checkout', url: store.checkoutUrl },
+        ];
+        for (const { slug, title, url } of pages) {
+          if (url) {
+            urls.push({ url, slug, postType: group.slug, title, addToCartUrl });
+          } else {
+            console.warn(`${title} page not found; skipping it`);
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  return urls;
+}
@@ -1,15 +1,23 @@
 /**
  * WordPress REST API Client
- * Fetches public post types and their posts
+ * Fetches public post types, their posts and the site's other page kinds
  */
 
+import { createHash } from 'crypto';
 import {
   WPPostType,
   WPPostTypesResponse,
   WPPost,
   UrlToScreenshot,
   PostTypeWithPosts,
+  WPTaxonomy,
+  WPTaxonomiesResponse,
+  WPTerm,
+  WPUser,
+  PageGroup,
+  AuthConfig,
 } from './types';
+import { ResolvedSampling, resolveSampling, samplePosts, strategyFor } from './sampling';
 
 // Post types to exclude (built-in non-content types)
 const EXCLUDED_POST_TYPES = [
@@ -53,6 +61,22 @@ export function normalizeUrl(url: string): string {
   return normalized;
 }
 
+/**
+ * Slug for a URL from its path segments (and query)
+ * Slugs joined from several parts get a short hash of the path, so /foo/bar and /foo-bar
+ * don't end up with the same screenshot files.
+ */
+export function slugFromParts(parts: string[], url: URL): string {
+  if (parts.length === 0) {
+    return 'homepage';
+  }
+  if (parts.length === 1) {
+    return parts[0];
+  }
+  const hash = createHash('sha1').update(url.pathname + url.search).digest('hex').slice(0, 6);
+  return `${parts.join('-')}-${hash}`;
+}
+
 /**
  * Extract domain from URL for folder naming
  */
@@ -65,6 +89,198 @@ export function extractDomain(url: string): string {
   }
 }
 
+// Taxonomies to exclude (internal taxonomies without public archives)
+const EXCLUDED_TAXONOMIES = [
+  'nav_menu',
+  'link_category',
+  'post_format',
+  'wp_theme',
+  'wp_template_part_area',
+  'wp_pattern_category',
+];
+
+// Path that doesn't exist on any site, for the 404 template
+const NOT_FOUND_PATH = 'pixelpolice-404-page-not-found';
+
+// Search term used when no post title offers one
+const FALLBACK_SEARCH_TERM = 'test';
+
+/**
+ * Link relation WordPress uses to advertise its REST API root
+ */
+const API_LINK_REL = 'https://api.w.org/';
+
+/**
+ * Discovered API roots per site (undefined if the API is not reachable)
+ */
+const apiRoots = new Map<string, Promise<string | undefined>>();
+
+/**
+ * Credentials sent with every request (see setApiAuth)
+ */
+let apiAuth: AuthConfig | undefined;
+
+/**
+ * Set the credentials for REST API and sitemap requests
+ * An Application Password takes precedence over HTTP Basic auth (both use the
+ * Authorization header).
+ */
+export function setApiAuth(auth: AuthConfig | undefined): void {
+  apiAuth = auth;
+  // Roots discovered without credentials may differ
+  apiRoots.clear();
+}
+
+/**
+ * Whether REST requests are authenticated with an Application Password
+ */
+function hasApplicationPassword(): boolean {
+  return Boolean(apiAuth?.username && apiAuth.applicationPassword);
+}
+
+/**
+ * Headers for requests to the site, including credentials if configured
+ */
+export function requestHeaders(accept: string = 'application/json'): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Accept': accept,
+    'User-Agent': 'WordPress-Wartung-Screenshot-Tool/1.0',
+  };
+
+  const credentials = hasApplicationPassword()
+    ? { username: apiAuth?.username, password: apiAuth?.applicationPassword }
+    : apiAuth?.httpBasic;
+  if (credentials) {
+    const token = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
+    headers['Authorization'] = `Basic ${token}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Find the advertised API root in a Link header or in the homepage's <link> tags
+ */
+function findApiLink(linkHeader: string | null, html: string): string | undefined {
+  for (const match of (linkHeader ?? '').matchAll(/<([^>]+)>\s*;([^,]*)/g)) {
+    if (/rel="?https:\/\/api\.w\.org\/"?/.test(match[2])) {
+      return match[1];
+    }
+  }
+
+  for (const tag of html.match(/<link\b[^>]*>/gi) ?? []) {
+    if (tag.includes(`"${API_LINK_REL}"`) || tag.includes(`'${API_LINK_REL}'`)) {
+      const href = tag.match(/href=["']([^"']+)["']/i);
+      if (href) {
+        return href[1].replace(/&amp;/g, '&').replace(/&#0?38;/g, '&');
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Discover the REST API root of a site
+ * Tries the root advertised by the homepage (Link header or <link> tag), then
+ * /wp-json/ and finally ?rest_route=/ (sites without pretty permalinks).
+ * The first candidate that responds is used; the result is cached per site.
+ */
+export function discoverApiRoot(siteUrl: string): Promise<string | undefined> {
+  const normalizedUrl = normalizeUrl(siteUrl);
+
+  let root = apiRoots.get(normalizedUrl);
+  if (!root) {
+    root = (async () => {
+      const candidates: string[] = [];
+
+      try {
+        const response = await fetch(`${normalizedUrl}/`, {
+          headers: requestHeaders('text/html,*/*'),
+        });
+        const advertised = findApiLink(response.headers.get('link'), await response.text());
+        if (advertised) {
+          candidates.push(advertised);
+        }
+      } catch {
+        // Homepage unreachable; the fixed locations may still work
+      }
+
+      candidates.push(`${normalizedUrl}/wp-json/`, `${normalizedUrl}/?rest_route=/`);
+
+      for (const candidate of [...new Set(candidates)]) {
+        try {
+          const response = await fetch(candidate, {
+            headers: requestHeaders(),
+          });
+          if (response.ok) {
+            return candidate;
+          }
+        } catch {
+          // Try the next candidate
+        }
+      }
+
+      return undefined;
+    })();
+    apiRoots.set(normalizedUrl, root);
+  }
+
+  return root;
+}
+
+/**
+ * Build an endpoint URL from an API root, for both /wp-json/ and ?rest_route= style roots
+ */
+export function buildApiUrl(
+  apiRoot: string,
+  route: string,
+  params: Record<string, string | number> = {}
+): string {
+  const url = new URL(apiRoot);
+  const routePath = route.replace(/^\/+/, '');
+  const restRoute = url.searchParams.get('rest_route');
+
+  if (restRoute !== null) {
+    url.searchParams.set('rest_route', `${restRoute.replace(/\/+$/, '')}/${routePath}`);
+  } else {
+    url.pathname = `${url.pathname.replace(/\/*$/, '/')}${routePath}`;
+  }
+
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, String(value));
+  }
+
+  return url.toString();
+}
+
+/**
+ * Discover the API root or fail
+ */
+async function requireApiRoot(siteUrl: string): Promise<string> {
+  const root = await discoverApiRoot(siteUrl);
+  if (!root) {
+    throw new Error(`WordPress REST API not found for ${normalizeUrl(siteUrl)}`);
+  }
+  return root;
+}
+
+/**
+ * Fetch the namespaces of the REST API index (e.g. "wp/v2", "wc/store/v1")
+ */
+export async function fetchApiNamespaces(apiRoot: string): Promise<string[]> {
+  try {
+    const response = await fetch(apiRoot, { headers: requestHeaders() });
+    if (!response.ok) {
+      return [];
+    }
+    const index = await response.json() as { namespaces?: string[] };
+    return index.namespaces ?? [];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Result of fetching post types, including both included and excluded types
  */
@@ -78,16 +294,12 @@ export interface FetchPostTypesResult {
  * Returns both included and excluded types with reasons
  */
 export async function fetchPostTypesWithDetails(siteUrl: string): Promise<FetchPostTypesResult> {
-  const normalizedUrl = normalizeUrl(siteUrl);
-  const apiUrl = `${normalizedUrl}/wp-json/wp/v2/types`;
+  const apiUrl = buildApiUrl(await requireApiRoot(siteUrl), 'wp/v2/types');
   
   console.log(`Fetching post types from: ${apiUrl}`);
   
   const response = await fetch(apiUrl, {
-    headers: {
-      'Accept': 'application/json',
-      'User-Agent': 'WordPress-Wartung-Screenshot-Tool/1.0',
-    },
+    headers: requestHeaders(),
   });
   
   if (!response.ok) {
@@ -153,76 +365,314 @@ export async function fetchPostTypes(siteUrl: string): Promise<WPPostType[]> {
 }
 
 /**
- * Fetch posts for a specific post type
+ * Options for fetchPosts
+ */
+export interface FetchPostsOptions {
+  /** Maximum number of posts (default: all, following X-WP-TotalPages) */
+  limit?: number;
+  /** Date order (default: 'desc', newest first) */
+  order?: 'asc' | 'desc';
+  /** Language code for WPML/Polylang (?lang=) */
+  language?: string;
+}
+
+/**
+ * Fetch posts for a specific post type, page by page
  */
 export async function fetchPosts(
   siteUrl: string,
   postType: WPPostType,
-  count: number = 20
+  options: FetchPostsOptions = {}
 ): Promise<WPPost[]> {
-  const normalizedUrl = normalizeUrl(siteUrl);
-  const apiUrl = `${normalizedUrl}/wp-json/wp/v2/${postType.rest_base}?per_page=${count}&_fields=id,slug,link,title,type`;
+  const { limit, order = 'desc', language } = options;
+  // Other statuses than publish need an authenticated request
+  const statuses = hasApplicationPassword() ? apiAuth?.statuses : undefined;
+  const posts: WPPost[] = [];
+  let totalPages = 1;
+  
+  try {
+    const apiRoot = await requireApiRoot(siteUrl);
+    const pageUrl = (page: number) => buildApiUrl(apiRoot, `wp/v2/${postType.rest_base}`, {
+      per_page: Math.min(100, limit ?? 100),
+      orderby: 'date',
+      order,
+      _fields: 'id,slug,link,title,type,date,template',
+      page,
+      ...(statuses ? { status: statuses.join(',') } : {}),
+      ...(language ? { lang: language } : {}),
+    });
+    
+    console.log(`Fetching ${postType.slug} posts from: ${pageUrl(1)}`);
+    
+    for (let page = 1; page <= totalPages; page++) {
+      const response = await fetch(pageUrl(page), {
+        headers: requestHeaders(),
+      });
+      
+      if (!response.ok) {
+        console.warn(`Failed to fetch ${postType.slug} posts (page ${page}): ${response.status}`);
+        break;
+      }
+      
+      totalPages = Number(response.headers.get('X-WP-TotalPages')) || 1;
+      posts.push(...await response.json() as WPPost[]);
+      
+      if (limit !== undefined && posts.length >= limit) {
+        break;
+      }
+    }
+  } catch (error) {
+    console.warn(`Error fetching ${postType.slug} posts: ${error instanceof Error ? error.message : String(error)}`);
+  }
   
-  console.log(`Fetching ${postType.slug} posts from: ${apiUrl}`);
+  // Filter to only posts with a public link (URL)
+  const postsWithLinks = posts
+    .filter(post => post.link && post.link.startsWith('http'))
+    .slice(0, limit);
   
+  console.log(`Found ${postsWithLinks.length} ${postType.slug} posts with public URLs`);
+  
+  return postsWithLinks;
+}
+
+/**
+ * Fetch public taxonomies from WordPress REST API
+ */
+export async function fetchTaxonomies(siteUrl: string): Promise<WPTaxonomy[]> {
   try {
+    const apiUrl = buildApiUrl(await requireApiRoot(siteUrl), 'wp/v2/taxonomies');
     const response = await fetch(apiUrl, {
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'WordPress-Wartung-Screenshot-Tool/1.0',
-      },
+      headers: requestHeaders(),
     });
     
     if (!response.ok) {
-      console.warn(`Failed to fetch ${postType.slug} posts: ${response.status}`);
+      console.warn(`Failed to fetch taxonomies: ${response.status}`);
       return [];
     }
     
-    const posts = await response.json() as WPPost[];
+    const data = await response.json() as WPTaxonomiesResponse;
+    return Object.values(data).filter(
+      taxonomy => taxonomy.rest_base && !EXCLUDED_TAXONOMIES.includes(taxonomy.slug)
+    );
+  } catch (error) {
+    console.warn(`Error fetching taxonomies: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+}
+
+/**
+ * Fetch the most used terms of a taxonomy (empty terms are skipped)
+ */
+export async function fetchTerms(siteUrl: string, taxonomy: WPTaxonomy, limit: number): Promise<WPTerm[]> {
+  try {
+    const apiUrl = buildApiUrl(await requireApiRoot(siteUrl), `wp/v2/${taxonomy.rest_base}`, {
+      per_page: Math.min(100, limit),
+      orderby: 'count',
+      order: 'desc',
+      hide_empty: 'true',
+      _fields: 'id,slug,name,link,count',
+    });
+    const response = await fetch(apiUrl, {
+      headers: requestHeaders(),
+    });
     
-    // Filter to only posts with a public link (URL)
-    const postsWithLinks = posts.filter(post => post.link && post.link.startsWith('http'));
+    if (!response.ok) {
+      console.warn(`Failed to fetch ${taxonomy.slug} terms: ${response.status}`);
+      return [];
+    }
     
-    console.log(`Found ${postsWithLinks.length} ${postType.slug} posts with public URLs`);
+    const terms = await response.json() as WPTerm[];
+    return terms.filter(term => term.link && term.link.startsWith('http')).slice(0, limit);
+  } catch (error) {
+    console.warn(`Error fetching ${taxonomy.slug} terms: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+}
+
+/**
+ * Fetch authors with published posts
+ * Security plugins often block the users endpoint; an empty list is returned then.
+ */
+export async function fetchAuthors(siteUrl: string, limit: number): Promise<WPUser[]> {
+  try {
+    const apiUrl = buildApiUrl(await requireApiRoot(siteUrl), 'wp/v2/users', {
+      per_page: Math.min(100, limit),
+      _fields: 'id,slug,name,link',
+    });
+    const response = await fetch(apiUrl, {
+      headers: requestHeaders(),
+    });
+    
+    if (!response.ok) {
+      console.warn(`Failed to fetch authors: ${response.status}`);
+      return [];
+    }
     
-    return postsWithLinks;
+    const users = await response.json() as WPUser[];
+    return users.filter(user => user.link && user.link.startsWith('http')).slice(0, limit);
   } catch (error) {
-    console.warn(`Error fetching ${postType.slug} posts: ${error instanceof Error ? error.message : String(error)}`);
+    console.warn(`Error fetching authors: ${error instanceof Error ? error.message : String(error)}`);
     return [];
   }
 }
 
 /**
- * Randomly select n items from an array
+ * Collect the selectable groups of non-post pages
+ * Taxonomy archives, author archives, archives of the given post types
+ * with has_archive, search results and the 404 template.
+ */
+export async function fetchPageGroups(siteUrl: string, postTypes: WPPostType[]): Promise<PageGroup[]> {
+  const groups: PageGroup[] = [];
+  
+  for (const taxonomy of await fetchTaxonomies(siteUrl)) {
+    groups.push({ slug: taxonomy.slug, name: taxonomy.name, kind: 'taxonomy', taxonomy });
+  }
+  
+  groups.push({ slug: 'author', name: 'Author archives', kind: 'author' });
+  
+  for (const postType of postTypes.filter(pt => pt.has_archive)) {
+    groups.push({
+      slug: `${postType.slug}-archive`,
+      name: `${postType.name} archive`,
+      kind: 'archive',
+      postType,
+    });
+  }
+  
+  groups.push({ slug: 'search', name: 'Search results', kind: 'search' });
+  groups.push({ slug: '404', name: '404 page', kind: '404' });
+  
+  return groups;
+}
+
+/**
+ * Pick a search term from post titles (first word with at least 4 letters)
  */
-function randomSelect<T>(array: T[], n: number): T[] {
-  const shuffled = [...array].sort(() => Math.random() - 0.5);
-  return shuffled.slice(0, n);
+function searchTermFrom(titles: string[]): string {
+  for (const title of titles) {
+    const word = title
+      .replace(/<[^>]*>|&[#\w]+;/g, ' ')
+      .split(/\s+/)
+      .find(candidate => /^\p{L}{4,}$/u.test(candidate));
+    if (word) {
+      return word.toLowerCase();
+    }
+  }
+  return FALLBACK_SEARCH_TERM;
+}
+
+/**
+ * Build the URLs of the selected page groups
+ * @param searchTitles - Post titles to take the search term from
+ */
+export async function buildPageGroupUrls(
+  siteUrl: string,
+  pageGroups: PageGroup[],
+  perGroup: number = 5,
+  searchTitles: string[] = []
+): Promise<UrlToScreenshot[]> {
+  const normalizedUrl = normalizeUrl(siteUrl);
+  const urls: UrlToScreenshot[] = [];
+  
+  for (const group of pageGroups) {
+    switch (group.kind) {
+      case 'taxonomy': {
+        if (!group.taxonomy) break;
+        const terms = await fetchTerms(siteUrl, group.taxonomy, perGroup);
+        console.log(`Selected ${terms.length} ${group.slug} terms (most used)`);
+        for (const term of terms) {
+          urls.push({ url: term.link, slug: term.slug, postType: group.slug, title: term.name });
+        }
+        break;
+      }
+      
+      case 'author': {
+        const authors = await fetchAuthors(siteUrl, perGroup);
+        console.log(`Selected ${authors.length} authors`);
+        for (const author of authors) {
+          urls.push({ url: author.link, slug: author.slug, postType: group.slug, title: author.name });
+        }
+        break;
+      }
+      
+      case 'archive': {
+        if (!group.postType) break;
+        // ?post_type= works with and without pretty permalinks (WordPress redirects to the pretty URL)
+        urls.push({
+          url: `${normalizedUrl}/?post_type=${encodeURIComponent(group.postType.slug)}`,
+          slug: group.postType.slug,
+          postType: group.slug,
+          title: group.name,
+        });
+        break;
+      }
+      
+      case 'search': {
+        const term = searchTermFrom(searchTitles);
+        urls.push({
+          url: `${normalizedUrl}/?s=${encodeURIComponent(term)}`,
+          slug: 'search',
+          postType: group.slug,
+          title: `Search: ${term}`,
+        });
+        break;
+      }
+      
+      case '404':
+        urls.push({
+          url: `${normalizedUrl}/${NOT_FOUND_PATH}/`,
+          slug: 'not-found',
+          postType: group.slug,
+          title: '404 page',
+          expectedStatus: 404,
+        });
+        break;
+    }
+  }
+  
+  return urls;
 }
 
 /**
  * Fetch all public post types and their posts
  * @param siteUrl - The WordPress site URL
- * @param postsPerType - Number of posts to fetch per type
+ * @param postsPerType - Number of posts per type (recent, oldest and random sampling)
  * @param selectedPostTypes - Optional list of post types to use (if not provided, fetches all)
+ * @param sampling - Sampling strategies and seed
+ * @param languages - Sample each language separately (WPML/Polylang ?lang=)
  */
 export async function fetchAllPostTypesWithPosts(
   siteUrl: string,
   postsPerType: number = 5,
-  selectedPostTypes?: WPPostType[]
+  selectedPostTypes?: WPPostType[],
+  sampling: ResolvedSampling = resolveSampling(),
+  languages: (string | undefined)[] = [undefined]
 ): Promise<PostTypeWithPosts[]> {
   const postTypes = selectedPostTypes ?? await fetchPostTypes(siteUrl);
   const results: PostTypeWithPosts[] = [];
   
   for (const postType of postTypes) {
-    // Fetch more posts than needed, then randomly select
-    const posts = await fetchPosts(siteUrl, postType, 20);
-    const selectedPosts = randomSelect(posts, postsPerType);
+    const strategy = strategyFor(sampling, postType.slug);
     
-    results.push({
-      postType,
-      posts: selectedPosts,
-    });
+    for (const language of languages) {
+      // Only recent/oldest can stop early; the other strategies need the whole archive
+      const limited = strategy === 'recent' || strategy === 'oldest';
+      const posts = await fetchPosts(siteUrl, postType, {
+        limit: limited ? postsPerType : undefined,
+        order: strategy === 'oldest' ? 'asc' : 'desc',
+        language,
+      });
+      const sampleKey = language ? `${postType.slug}:${language}` : postType.slug;
+      const selectedPosts = samplePosts(posts, strategy, postsPerType, sampling.seed, sampleKey);
+      
+      console.log(`Selected ${selectedPosts.length} ${postType.slug} posts${language ? ` [${language}]` : ''} (${strategy})`);
+      
+      results.push({
+        postType,
+        posts: selectedPosts,
+        language,
+      });
+    }
   }
   
   return results;
@@ -231,13 +681,19 @@ export async function fetchAllPostTypesWithPosts(
 /**
  * Build list of URLs to screenshot
  * @param siteUrl - The WordPress site URL
- * @param postsPerType - Number of posts to fetch per type
+ * @param postsPerType - Number of posts per type (recent, oldest and random sampling)
  * @param selectedPostTypes - Optional list of post types to use (if not provided, fetches all)
+ * @param sampling - Sampling strategies and seed
+ * @param pageGroups - Taxonomy, author, archive, search and 404 pages to include
+ * @param languages - Sample posts per language (WPML/Polylang), tagging each URL
  */
 export async function buildUrlList(
   siteUrl: string,
   postsPerType: number = 5,
-  selectedPostTypes?: WPPostType[]
+  selectedPostTypes?: WPPostType[],
+  sampling?: ResolvedSampling,
+  pageGroups: PageGroup[] = [],
+  languages?: string[]
 ): Promise<UrlToScreenshot[]> {
   const normalizedUrl = normalizeUrl(siteUrl);
   const urls: UrlToScreenshot[] = [];
@@ -252,18 +708,25 @@ export async function buildUrlList(
   
   try {
     // Fetch all post types and their posts
-    const postTypesWithPosts = await fetchAllPostTypesWithPosts(siteUrl, postsPerType, selectedPostTypes);
+    const postTypesWithPosts = await fetchAllPostTypesWithPosts(
+      siteUrl, postsPerType, selectedPostTypes, sampling, languages
+    );
     
-    for (const { postType, posts } of postTypesWithPosts) {
+    for (const { postType, posts, language } of postTypesWithPosts) {
       for (const post of posts) {
         urls.push({
           url: post.link,
-          slug: post.slug,
+          // Drafts have no slug yet
+          slug: post.slug || String(post.id),
           postType: postType.slug,
           title: post.title.rendered,
+          language,
         });
       }
     }
+    
+    const titles = postTypesWithPosts.flatMap(({ posts }) => posts.map(post => post.title.rendered));
+    urls.push(...await buildPageGroupUrls(siteUrl, pageGroups, postsPerType, titles));
   } catch (error) {
     console.warn('Failed to fetch from WordPress REST API, falling back to homepage only');
     console.warn(`Error: ${error instanceof Error ? error.message : String(error)}`);
@@ -274,19 +737,38 @@ export async function buildUrlList(
 }
 
 /**
- * Check if WordPress REST API is accessible
+ * Key for comparing URLs from different sources (ignores protocol, trailing slash and fragment)
  */
-export async function checkApiAccess(siteUrl: string): Promise<boolean> {
+export function urlKey(url: string): string {
   try {
-    const normalizedUrl = normalizeUrl(siteUrl);
-    const response = await fetch(`${normalizedUrl}/wp-json/`, {
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'WordPress-Wartung-Screenshot-Tool/1.0',
-      },
-    });
-    return response.ok;
+    const parsed = new URL(url);
+    return `${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
   } catch {
-    return false;
+    return url;
+  }
+}
+
+/**
+ * Combine URL lists, keeping the first occurrence of every URL
+ */
+export function mergeUrlLists(...lists: UrlToScreenshot[][]): UrlToScreenshot[] {
+  const seen = new Set<string>();
+  const merged: UrlToScreenshot[] = [];
+
+  for (const url of lists.flat()) {
+    const key = urlKey(url.url);
+    if (!seen.has(key)) {
+      seen.add(key);
+      merged.push(url);
+    }
   }
+
+  return merged;
+}
+
+/**
+ * Check if WordPress REST API is accessible
+ */
+export async function checkApiAccess(siteUrl: string): Promise<boolean> {
+  return (await discoverApiRoot(siteUrl)) !== undefined;
 }
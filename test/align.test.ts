@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PNG } from 'pngjs';
+import { findBands, matchRows } from '../src/align';
+
+/**
+ * Image with one solid gray row per value
+ */
+function rows(values: number[], width: number = 4): PNG {
+  const png = new PNG({ width, height: values.length });
+  values.forEach((value, y) => {
+    for (let x = 0; x < width; x++) {
+      const idx = (width * y + x) * 4;
+      png.data[idx] = png.data[idx + 1] = png.data[idx + 2] = value;
+      png.data[idx + 3] = 255;
+    }
+  });
+  return png;
+}
+
+/**
+ * Bands of two row lists, without the pixel counts
+ */
+function bandsOf(before: number[], after: number[]) {
+  const matches = matchRows(rows(before), before.length, rows(after), after.length);
+  return findBands(matches, before.length, after.length)
+    .map(({ kind, beforeY, beforeHeight, afterY, afterHeight }) => ({ kind, beforeY, beforeHeight, afterY, afterHeight }));
+}
+
+describe('matchRows', () => {
+  it('matches every row of identical images in order', () => {
+    const values = [1, 2, 3, 4, 5];
+    assert.deepEqual(matchRows(rows(values), 5, rows(values), 5), [[0, 0], [1, 1], [2, 2], [3, 3], [4, 4]]);
+  });
+
+  it('matches rows that moved down after an insertion', () => {
+    const matches = matchRows(rows([1, 2, 3, 4]), 4, rows([1, 9, 9, 2, 3, 4]), 6);
+    assert.deepEqual(matches, [[0, 0], [1, 3], [2, 4], [3, 5]]);
+  });
+
+  it('only looks at the given heights', () => {
+    assert.deepEqual(matchRows(rows([1, 2, 3]), 2, rows([1, 2, 7]), 2), [[0, 0], [1, 1]]);
+  });
+});
+
+describe('findBands', () => {
+  it('finds nothing for identical images', () => {
+    assert.deepEqual(bandsOf([1, 2, 3], [1, 2, 3]), []);
+  });
+
+  it('reports inserted rows', () => {
+    assert.deepEqual(bandsOf([1, 2, 3, 4], [1, 9, 9, 2, 3, 4]), [
+      { kind: 'inserted', beforeY: 1, beforeHeight: 0, afterY: 1, afterHeight: 2 },
+    ]);
+  });
+
+  it('reports removed rows', () => {
+    assert.deepEqual(bandsOf([1, 2, 3, 4], [1, 4]), [
+      { kind: 'removed', beforeY: 1, beforeHeight: 2, afterY: 1, afterHeight: 0 },
+    ]);
+  });
+
+  it('reports changed rows as modified', () => {
+    assert.deepEqual(bandsOf([1, 2, 3, 4], [1, 7, 3, 4]), [
+      { kind: 'modified', beforeY: 1, beforeHeight: 1, afterY: 1, afterHeight: 1 },
+    ]);
+  });
+
+  it('merges bands separated by only a few matched rows', () => {
+    assert.deepEqual(bandsOf([1, 2, 3, 4, 5, 6], [1, 8, 3, 4, 9, 6]), [
+      { kind: 'modified', beforeY: 1, beforeHeight: 4, afterY: 1, afterHeight: 4 },
+    ]);
+  });
+
+  it('keeps bands far apart separate', () => {
+    const before = Array.from({ length: 20 }, (_, i) => i + 1);
+    const after = before.map((value, i) => (i === 2 || i === 15 ? 100 + i : value));
+    assert.deepEqual(bandsOf(before, after).map(band => band.beforeY), [2, 15]);
+  });
+});
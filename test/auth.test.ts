@@ -0,0 +1,22 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveLogin } from '../src/auth';
+
+describe('resolveLogin', () => {
+  it('needs a user name and account password', () => {
+    assert.equal(resolveLogin('example.com', undefined), undefined);
+    assert.equal(resolveLogin('example.com', { username: 'editor', applicationPassword: 'abcd' }), undefined);
+  });
+
+  it('defaults to wp-login.php of the site', () => {
+    assert.deepEqual(resolveLogin('example.com/', { username: 'editor', password: 'secret' }), {
+      url: 'https://example.com/wp-login.php',
+      username: 'editor',
+      password: 'secret',
+    });
+    assert.equal(
+      resolveLogin('example.com', { username: 'editor', password: 'secret', loginUrl: 'https://example.com/login/' })?.url,
+      'https://example.com/login/'
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PixelPoliceConfig } from '../src/types';
+import { mergeConfigs, validateConfig, validatePostsPerType, validateSiteUrl } from '../src/cli';
+
+/**
+ * Validate a config that is deliberately malformed (as read from a JSON file)
+ */
+function validate(config: unknown): void {
+  validateConfig(config as PixelPoliceConfig);
+}
+
+describe('mergeConfigs', () => {
+  it('lets later configs override earlier ones', () => {
+    assert.deepEqual(
+      mergeConfigs({ siteUrl: 'a.example', postsPerType: 5 }, { postsPerType: 10 }),
+      { siteUrl: 'a.example', postsPerType: 10 }
+    );
+  });
+
+  it('ignores undefined values', () => {
+    assert.deepEqual(mergeConfigs({ postsPerType: 5 }, { postsPerType: undefined }), { postsPerType: 5 });
+  });
+
+  it('merges nested objects one level deep', () => {
+    const merged = mergeConfigs(
+      { cookie: { mode: 'auto', action: 'reject' }, thresholds: { failPercentage: 5, rules: [{ failPercentage: 1 }] } },
+      { cookie: { mode: 'custom', customText: 'OK' }, thresholds: { rules: [{ warnPixels: 10 }] } }
+    );
+    assert.deepEqual(merged.cookie, { mode: 'custom', action: 'reject', customText: 'OK' });
+    assert.deepEqual(merged.thresholds, { failPercentage: 5, rules: [{ warnPixels: 10 }] });
+  });
+
+  it('replaces lists instead of merging them', () => {
+    assert.deepEqual(mergeConfigs({ viewports: ['desktop', 'mobile'] }, { viewports: ['mobile'] }).viewports, ['mobile']);
+  });
+});
+
+describe('validateSiteUrl', () => {
+  it('accepts domains and URLs', () => {
+    assert.equal(validateSiteUrl('example.com'), true);
+    assert.equal(validateSiteUrl('https://example.com/blog'), true);
+  });
+
+  it('rejects empty values', () => {
+    assert.notEqual(validateSiteUrl(''), true);
+  });
+});
+
+describe('validatePostsPerType', () => {
+  it('accepts positive whole numbers only', () => {
+    assert.equal(validatePostsPerType(5), true);
+    assert.notEqual(validatePostsPerType(0), true);
+    assert.notEqual(validatePostsPerType(1.5), true);
+  });
+});
+
+describe('validateConfig', () => {
+  it('accepts an empty config', () => {
+    assert.doesNotThrow(() => validateConfig({}));
+  });
+
+  it('accepts a complete config', () => {
+    assert.doesNotThrow(() => validateConfig({
+      siteUrl: 'https://example.com',
+      postTypes: ['page', 'post'],
+      postsPerType: 3,
+      concurrency: 2,
+      retries: 1,
+      retryDelayMs: 500,
+      cookie: { mode: 'auto', action: 'reject' },
+      viewports: ['desktop', { name: 'wide', width: 2560, height: 1440 }],
+      browsers: ['chromium', 'webkit'],
+      sampling: { strategy: 'random', seed: 42, postTypes: { page: 'all' } },
+      languages: ['en', 'de'],
+      extraUrls: ['/landing', { url: 'https://example.com/contact', title: 'Contact' }],
+      exclude: ['/shop/**', 'regex:[?&]replytocom='],
+      thresholds: { failPercentage: 5, rules: [{ viewport: 'wide', url: '/blog/**', warnPixels: 100 }] },
+      mask: { selectors: ['.ad'], regions: [{ x: 0, y: 0, width: 100, height: 50, viewport: 'wide' }] },
+      diffMode: 'shift',
+      components: { footer: '.site-footer' },
+      interactions: [{ url: '/', steps: [{ action: 'click', selector: '.menu-toggle', screenshot: 'menu-open' }] }],
+      stabilize: { time: '2024-01-01T12:00:00Z', seed: 1 },
+    }));
+  });
+
+  it('reports the field and reason', () => {
+    assert.throws(() => validate({ postsPerType: 0 }), /^Error: Invalid postsPerType: /);
+    assert.throws(() => validate({ concurrency: 0 }), /^Error: Invalid concurrency: Please enter a positive whole number$/);
+    assert.throws(() => validate({ retries: -1 }), /Invalid retries: Please enter a non-negative whole number/);
+    assert.throws(() => validate({ retryDelayMs: 0.5 }), /Invalid retryDelayMs/);
+    assert.throws(() => validate({ postTypes: 'page' }), /Invalid postTypes: Expected a list of post type slugs/);
+    assert.throws(() => validate({ cookie: { mode: 'always' } }), /Invalid cookie.mode: Expected one of: /);
+    assert.throws(() => validate({ cookie: { mode: 'auto', action: 'ignore' } }), /Invalid cookie.action: Expected one of: accept, reject/);
+    assert.throws(() => validate({ viewports: ['huge'] }), /Invalid viewports: Unknown viewport "huge"/);
+    assert.throws(() => validate({ viewports: ['desktop', 'desktop'] }), /Duplicate viewport "desktop"/);
+    assert.throws(() => validate({ viewports: [{ name: 'wide', width: 2560 }] }), /Invalid viewports\[0\].height/);
+    assert.throws(() => validate({ browsers: ['chrome'] }), /Invalid browsers: Unknown browser engine "chrome"/);
+    assert.throws(() => validate({ sampling: { strategy: 'best' } }), /Invalid sampling.strategy/);
+    assert.throws(() => validate({ sampling: { postTypes: { page: 'best' } } }), /Invalid sampling.postTypes.page/);
+    assert.throws(() => validate({ languages: ['english'] }), /Invalid languages: "english" is not a language code/);
+    assert.throws(() => validate({ extraUrls: ['landing'] }), /Invalid extraUrls\[0\]/);
+    assert.throws(() => validate({ exclude: ['regex:(unclosed'] }), /Invalid exclude\[0\]/);
+    assert.throws(() => validate({ diffMode: 'fuzzy' }), /Invalid diffMode: Expected one of: pixel, shift/);
+    assert.throws(() => validate({ stabilize: { time: 'noon' } }), /Invalid stabilize.time/);
+    assert.throws(() => validate({ stabilize: { seed: 1.5 } }), /Invalid stabilize.seed: Please enter a whole number/);
+    assert.throws(() => validate({ thresholds: { failPixels: -1 } }), /Invalid thresholds.failPixels/);
+    assert.throws(() => validate({ thresholds: { dimensionChange: 'ignore' } }), /Invalid thresholds.dimensionChange/);
+  });
+
+  it('checks viewport names used in threshold rules', () => {
+    assert.throws(() => validate({ thresholds: { rules: [{ viewport: 'wide' }] } }), /Invalid thresholds.rules\[0\].viewport/);
+    assert.doesNotThrow(() => validate({
+      viewports: [{ name: 'wide', width: 2560, height: 1440 }],
+      thresholds: { rules: [{ viewport: 'wide' }] },
+    }));
+  });
+
+  it('reports malformed mask regions and rules as config errors', () => {
+    assert.throws(() => validate({ mask: { regions: { x: 0 } } }), /Invalid mask.regions: Expected a list of regions/);
+    assert.throws(() => validate({ mask: { regions: [null] } }), /Invalid mask.regions\[0\]/);
+    assert.throws(() => validate({ mask: { regions: [{ x: 0, y: 0, width: 0, height: 10 }] } }), /Invalid mask.regions\[0\]/);
+    assert.throws(() => validate({ mask: { rules: {} } }), /Invalid mask.rules: Expected a list of rules/);
+    assert.throws(() => validate({ mask: { rules: [{ url: '/shop/**', regions: 'top' }] } }), /Invalid mask.rules\[0\].regions/);
+  });
+
+  it('checks component names and selectors', () => {
+    assert.throws(() => validate({ components: { 'site footer': 'footer' } }), /Invalid components: Invalid component name "site footer"/);
+    assert.throws(() => validate({ components: { footer: '' } }), /Invalid components.footer/);
+  });
+
+  it('checks interaction rules and steps', () => {
+    assert.throws(() => validate({ interactions: [{ steps: [] }] }), /Invalid interactions\[0\].steps/);
+    assert.throws(() => validate({ interactions: [{ url: '', steps: [{ action: 'press', value: 'Escape' }] }] }), /Invalid interactions\[0\].url/);
+    assert.throws(() => validate({ interactions: [{ steps: [{ action: 'click', selector: 'a', screenshot: 'menu open' }] }] }), /Invalid interactions\[0\].steps\[0\]/);
+  });
+
+  it('requires screenshot names to be unique across rules', () => {
+    const step = (screenshot: string) => ({ action: 'click', selector: 'a', screenshot });
+    assert.throws(() => validate({ interactions: [{ steps: [step('x'), step('x')] }] }), /Duplicate screenshot name "x"/);
+    assert.throws(
+      () => validate({ interactions: [{ steps: [step('x')] }, { url: '/contact/', steps: [step('x')] }] }),
+      /Invalid interactions\[1\].steps: Duplicate screenshot name "x"/
+    );
+    assert.doesNotThrow(() => validate({ interactions: [{ steps: [step('x')] }, { steps: [step('y')] }] }));
+  });
+
+  it('checks credentials and post statuses', () => {
+    assert.throws(() => validate({ auth: { password: 'secret' } }), /Invalid auth.username/);
+    assert.throws(() => validate({ auth: { username: 'editor', applicationPassword: 'abcd', statuses: ['trash'] } }), /Unknown post status "trash"/);
+    assert.throws(() => validate({ auth: { httpBasic: { username: 'staging' } } }), /Invalid auth.httpBasic/);
+    assert.doesNotThrow(() => validate({ auth: { username: 'editor', applicationPassword: 'abcd', statuses: ['publish'] } }));
+  });
+
+  it('requires an Application Password and a login for statuses other than publish', () => {
+    const auth = { username: 'editor', applicationPassword: 'abcd', password: 'secret', statuses: ['publish', 'draft'] };
+    assert.doesNotThrow(() => validate({ auth }));
+    assert.throws(() => validate({ auth: { ...auth, password: undefined } }), /Invalid auth.statuses: .*auth.password/);
+    assert.throws(() => validate({ auth: { ...auth, applicationPassword: undefined } }), /Invalid auth.statuses: .*auth.applicationPassword/);
+  });
+});
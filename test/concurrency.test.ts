@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter, runPool } from '../src/concurrency';
+
+describe('runPool', () => {
+  it('keeps the input order regardless of completion order', async () => {
+    const results = await runPool([30, 10, 20], 3, async delay => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return delay;
+    });
+    assert.deepEqual(results, [30, 10, 20]);
+  });
+
+  it('runs at most `concurrency` workers at a time', async () => {
+    let running = 0;
+    let peak = 0;
+    await runPool([1, 2, 3, 4, 5], 2, async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    });
+    assert.equal(peak, 2);
+  });
+
+  it('handles an empty list', async () => {
+    assert.deepEqual(await runPool([], 4, async () => 1), []);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('spaces out acquisitions evenly', async () => {
+    const limiter = new RateLimiter(50);
+    const start = Date.now();
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    assert.ok(Date.now() - start >= 35);
+  });
+});
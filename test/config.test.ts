@@ -0,0 +1,48 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findConfigFile, loadConfigFile } from '../src/config';
+
+describe('config files', () => {
+  let folder: string;
+
+  before(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'pixelpolice-config-'));
+  });
+
+  after(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  const write = (name: string, content: string): string => {
+    const filePath = path.join(folder, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  it('finds the TypeScript config before the JSON config', () => {
+    assert.equal(findConfigFile(undefined, folder), undefined);
+    write('pixelpolice.config.json', '{}');
+    assert.equal(findConfigFile(undefined, folder), path.join(folder, 'pixelpolice.config.json'));
+    write('pixelpolice.config.ts', 'export default {};');
+    assert.equal(findConfigFile(undefined, folder), path.join(folder, 'pixelpolice.config.ts'));
+  });
+
+  it('requires an explicit config file to exist', () => {
+    assert.throws(() => findConfigFile('missing.json', folder), /Config file not found/);
+  });
+
+  it('loads JSON and TypeScript configs', () => {
+    assert.deepEqual(loadConfigFile(write('json.config.json', '{"postsPerType": 3}')), { postsPerType: 3 });
+    const tsPath = write('ts.config.ts', 'const postsPerType: number = 4;\nexport default { postsPerType };\n');
+    assert.deepEqual(loadConfigFile(tsPath), { postsPerType: 4 });
+  });
+
+  it('reports malformed config files', () => {
+    assert.throws(() => loadConfigFile(write('broken.json', '{')), /Invalid JSON in .*broken\.json/);
+    assert.throws(() => loadConfigFile(write('list.json', '[]')), /Config file must export an object/);
+    assert.throws(() => loadConfigFile(write('broken.ts', 'export default {;')), /Cannot load broken\.ts/);
+  });
+});
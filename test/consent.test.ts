@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Page } from 'playwright';
+import { consoleLogger } from '../src/concurrency';
+import { describeConsent, handleCookieBanner } from '../src/consent';
+
+describe('describeConsent', () => {
+  it('names the platform, action and method', () => {
+    assert.equal(describeConsent({ cmp: 'Cookiebot', method: 'api', action: 'accept' }), 'Cookiebot: accepted via JavaScript API');
+    assert.equal(
+      describeConsent({ cmp: 'Real Cookie Banner', method: 'button', action: 'reject' }),
+      'Real Cookie Banner: rejected via consent button'
+    );
+    assert.equal(describeConsent({ cmp: 'Borlabs Cookie', method: 'cookie', action: 'accept' }), 'Borlabs Cookie: accepted via consent cookies');
+  });
+
+  it('quotes clicked button texts', () => {
+    assert.equal(describeConsent({ method: 'text', action: 'accept', text: 'Alle akzeptieren' }), 'clicked "Alle akzeptieren"');
+  });
+
+  it('tells a missing banner from a platform that could not be handled', () => {
+    assert.equal(describeConsent({ method: 'none' }), 'No cookie banner found');
+    assert.equal(describeConsent({ cmp: 'Complianz', method: 'none' }), 'Complianz: no consent given');
+  });
+});
+
+describe('handleCookieBanner', () => {
+  it('leaves the page alone when banners are ignored', async () => {
+    assert.equal(await handleCookieBanner({} as Page, { mode: 'none' }, consoleLogger), undefined);
+  });
+});
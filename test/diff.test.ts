@@ -0,0 +1,235 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PNG } from 'pngjs';
+import { compareComponents, compareScreenshots } from '../src/diff';
+
+type Color = [number, number, number];
+
+const WHITE: Color = [255, 255, 255];
+const BLACK: Color = [0, 0, 0];
+
+/**
+ * Image painted pixel by pixel
+ */
+function image(width: number, height: number, paint: (x: number, y: number) => Color = () => WHITE): PNG {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (width * y + x) * 4;
+      [png.data[idx], png.data[idx + 1], png.data[idx + 2]] = paint(x, y);
+      png.data[idx + 3] = 255;
+    }
+  }
+  return png;
+}
+
+/**
+ * Paint a block on a white image
+ */
+function block(x: number, y: number, width: number, height: number): (px: number, py: number) => Color {
+  return (px, py) => px >= x && px < x + width && py >= y && py < y + height ? BLACK : WHITE;
+}
+
+describe('compareScreenshots', () => {
+  let folder: string;
+
+  before(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'pixelpolice-diff-'));
+  });
+
+  after(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  const save = (name: string, png: PNG): string => {
+    const filePath = path.join(folder, `${name}.png`);
+    fs.writeFileSync(filePath, PNG.sync.write(png));
+    return filePath;
+  };
+
+  it('counts changed pixels and writes the diff image', () => {
+    const diffPath = path.join(folder, 'diff', 'changed.png');
+    const result = compareScreenshots(save('before', image(20, 20)), save('after', image(20, 20, block(0, 0, 5, 2))), diffPath);
+    assert.equal(result.diffPixels, 10);
+    assert.equal(result.totalPixels, 400);
+    assert.equal(result.diffPercentage, 2.5);
+    assert.equal(result.dimensionsDiffer, false);
+    assert.ok(fs.existsSync(diffPath));
+  });
+
+  it('pads images of different sizes with white', () => {
+    const result = compareScreenshots(save('short', image(20, 10)), save('tall', image(20, 20, block(0, 10, 20, 10))), path.join(folder, 'padded.png'));
+    assert.equal(result.dimensionsDiffer, true);
+    assert.deepEqual(result.afterDimensions, { width: 20, height: 20 });
+    assert.equal(result.diffPixels, 200);
+  });
+
+  it('excludes ignore regions, clipped to the image', () => {
+    const result = compareScreenshots(
+      save('plain', image(20, 20)),
+      save('banner', image(20, 20, block(0, 0, 20, 4))),
+      path.join(folder, 'ignored.png'),
+      { ignoreRegions: [{ x: -5, y: 0, width: 40, height: 4 }] }
+    );
+    assert.equal(result.diffPixels, 0);
+    assert.deepEqual(result.ignoredRegions, [{ x: 0, y: 0, width: 20, height: 4 }]);
+  });
+
+  it('excludes pixels of the noise mask and counts those that differed', () => {
+    // The noise mask is the diff of two before captures, drawn on a transparent background
+    const noiseMaskPath = path.join(folder, 'noise.png');
+    compareScreenshots(save('first', image(20, 20)), save('repeat', image(20, 20, block(0, 0, 10, 2))), noiseMaskPath, { diffMask: true });
+
+    const result = compareScreenshots(
+      save('noise-before', image(20, 20)),
+      save('noise-after', image(20, 20, block(0, 0, 4, 4))),
+      path.join(folder, 'noise-diff.png'),
+      { noiseMaskPath }
+    );
+    assert.equal(result.noisePixels, 8);
+    assert.equal(result.diffPixels, 8);
+  });
+
+  it('lines element screenshots up with the noise mask through its origin', () => {
+    const noiseMaskPath = path.join(folder, 'page-noise.png');
+    compareScreenshots(save('page', image(20, 20)), save('page-repeat', image(20, 20, block(10, 10, 5, 5))), noiseMaskPath, { diffMask: true });
+
+    const result = compareScreenshots(
+      save('element-before', image(5, 5)),
+      save('element-after', image(5, 5, () => BLACK)),
+      path.join(folder, 'element-diff.png'),
+      { noiseMaskPath, noiseMaskOrigin: { x: 10, y: 10 } }
+    );
+    assert.equal(result.diffPixels, 0);
+    assert.equal(result.noisePixels, 25);
+  });
+
+  describe('shift mode', () => {
+    const RED: Color = [255, 0, 0];
+
+    /** Distinct content per page row */
+    const content = (x: number, row: number): Color => [(row * 7) % 256, (row * 13 + x) % 256, (row * 29) % 256];
+
+    /** Page of 60 content rows, with a 10-row bar inserted at row 20 in the after phase */
+    const page = (inserted: boolean, changed?: { from: number; to: number }) => image(20, inserted ? 70 : 60, (x, y) => {
+      const row = inserted && y >= 20 ? (y < 30 ? -1 : y - 10) : y;
+      if (row < 0) return RED;
+      // Rows that render differently in each phase (e.g. a clock)
+      if (changed && row >= changed.from && row < changed.to) return inserted ? BLACK : WHITE;
+      return content(x, row);
+    });
+
+    it('reports inserted rows as a band instead of shifting everything below', () => {
+      const result = compareScreenshots(save('shift-before', page(false)), save('shift-after', page(true)), path.join(folder, 'shift.png'), { mode: 'shift' });
+      assert.ok(result.diffPixels > 20 * 40);
+      assert.deepEqual(result.shift?.bands, [{ kind: 'inserted', beforeY: 20, beforeHeight: 0, afterY: 20, afterHeight: 10, diffPixels: 200 }]);
+      assert.equal(result.shift?.adjustedDiffPixels, 200);
+      assert.equal(result.shift?.shiftedRows, 40);
+    });
+
+    it('leaves the shift analysis out in pixel mode', () => {
+      const result = compareScreenshots(save('pixel-before', page(false)), save('pixel-after', page(true)), path.join(folder, 'pixel.png'));
+      assert.equal(result.shift, undefined);
+    });
+
+    it('masks each phase\'s own regions where its element was', () => {
+      // A masked element at rows 40-45 moved down with the inserted bar
+      const result = compareScreenshots(
+        save('masked-before', page(false, { from: 40, to: 45 })),
+        save('masked-after', page(true, { from: 40, to: 45 })),
+        path.join(folder, 'masked.png'),
+        { mode: 'shift', beforeRegions: [{ x: 0, y: 40, width: 20, height: 5 }], afterRegions: [{ x: 0, y: 50, width: 20, height: 5 }] }
+      );
+      assert.deepEqual(result.shift?.bands.map(band => band.kind), ['inserted']);
+      assert.equal(result.shift?.adjustedDiffPixels, 200);
+    });
+
+    it('maps shared ignore regions through the alignment', () => {
+      const result = compareScreenshots(
+        save('ignored-before', page(false, { from: 40, to: 45 })),
+        save('ignored-after', page(true, { from: 40, to: 45 })),
+        path.join(folder, 'ignored-shift.png'),
+        { mode: 'shift', ignoreRegions: [{ x: 0, y: 40, width: 20, height: 5 }] }
+      );
+      assert.deepEqual(result.shift?.bands.map(band => band.kind), ['inserted']);
+      assert.equal(result.shift?.adjustedDiffPixels, 200);
+    });
+  });
+
+  it('throws for missing screenshots', () => {
+    assert.throws(() => compareScreenshots(path.join(folder, 'missing.png'), save('any', image(1, 1)), path.join(folder, 'x.png')), /Before screenshot not found/);
+  });
+});
+
+describe('compareComponents', () => {
+  let folder: string;
+
+  before(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'pixelpolice-components-'));
+    fs.mkdirSync(path.join(folder, 'before'));
+    fs.mkdirSync(path.join(folder, 'after'));
+  });
+
+  after(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  const save = (relativePath: string, png: PNG): string => {
+    fs.writeFileSync(path.join(folder, relativePath), PNG.sync.write(png));
+    return relativePath;
+  };
+
+  it('marks components found in one phase as added or removed', () => {
+    const components = compareComponents(
+      { footer: save('before/footer.png', image(10, 10)) },
+      { header: save('after/header.png', image(10, 10)) },
+      folder,
+      path.join(folder, 'diff')
+    );
+    assert.deepEqual(components, { footer: { status: 'removed' }, header: { status: 'added' } });
+  });
+
+  it('compares components found in both phases, without regions', () => {
+    const components = compareComponents(
+      { footer: save('before/same.png', image(10, 10)), hero: save('before/hero.png', image(10, 10)) },
+      { footer: save('after/same.png', image(10, 10)), hero: save('after/hero.png', image(10, 10, block(0, 0, 2, 2))) },
+      folder,
+      path.join(folder, 'diff')
+    );
+    assert.equal(components.footer.status, 'unchanged');
+    assert.equal(components.hero.status, 'changed');
+    assert.equal(components.hero.diff?.diffPixels, 4);
+    assert.equal(components.hero.diff?.diffPath, path.join('diff', 'hero-diff.png'));
+  });
+
+  it('fails only the component that cannot be compared', () => {
+    const components = compareComponents(
+      { footer: 'before/missing.png', header: save('before/header.png', image(10, 10)) },
+      { footer: save('after/footer.png', image(10, 10)), header: save('after/header.png', image(10, 10)) },
+      folder,
+      path.join(folder, 'diff')
+    );
+    assert.equal(components.footer.status, 'failed');
+    assert.match(components.footer.error ?? '', /Before screenshot not found/);
+    assert.equal(components.header.status, 'unchanged');
+  });
+
+  it('moves page regions to where the element was in each phase', () => {
+    // A masked 10x2 bar at the top of the element, which moved down the page by 30 pixels
+    const components = compareComponents(
+      { card: save('before/card.png', image(10, 10, block(0, 0, 10, 2))) },
+      { card: save('after/card.png', image(10, 10)) },
+      folder,
+      path.join(folder, 'diff'),
+      {
+        beforeRegions: { card: { x: 100, y: 50, width: 10, height: 10 } },
+        afterRegions: { card: { x: 100, y: 80, width: 10, height: 10 } },
+        ignoreRegions: [{ x: 100, y: 50, width: 10, height: 2 }, { x: 100, y: 80, width: 10, height: 2 }],
+      }
+    );
+    assert.equal(components.card.status, 'unchanged');
+  });
+});
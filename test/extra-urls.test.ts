@@ -0,0 +1,116 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UrlToScreenshot } from '../src/types';
+import { excludeUrls, loadUrlFile, resolveExtraUrls, validateExtraUrl } from '../src/extra-urls';
+
+describe('loadUrlFile', () => {
+  let folder: string;
+
+  before(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'pixelpolice-urls-'));
+  });
+
+  after(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  const write = (name: string, content: string): string => {
+    fs.writeFileSync(path.join(folder, name), content);
+    return name;
+  };
+
+  it('reads one URL per line with optional titles and comments', () => {
+    const file = write('urls.txt', '# Critical pages\n/landing Spring landing page\n\nhttps://example.com/contact\n');
+    assert.deepEqual(loadUrlFile(file, folder), [
+      { url: '/landing', title: 'Spring landing page' },
+      { url: 'https://example.com/contact', title: undefined },
+    ]);
+  });
+
+  it('reads CSV columns in header order, with quoted cells', () => {
+    const file = write('urls.csv', 'group,url,title\nforms,/contact,"Contact, ""quick"""\n,/about,\n');
+    assert.deepEqual(loadUrlFile(file, folder), [
+      { url: '/contact', title: 'Contact, "quick"', group: 'forms' },
+      { url: '/about', title: undefined, group: undefined },
+    ]);
+  });
+
+  it('reads CSV without a header as url, title, group', () => {
+    const file = write('plain.csv', '/landing,Landing,campaign\n');
+    assert.deepEqual(loadUrlFile(file, folder), [{ url: '/landing', title: 'Landing', group: 'campaign' }]);
+  });
+
+  it('reads a JSON array or an object with urls', () => {
+    assert.deepEqual(loadUrlFile(write('list.json', '["/a", { "url": "/b", "title": "B" }]'), folder), [
+      '/a',
+      { url: '/b', title: 'B' },
+    ]);
+    assert.deepEqual(loadUrlFile(write('object.json', '{ "urls": ["/c"] }'), folder), ['/c']);
+  });
+
+  it('rejects missing files, invalid JSON and invalid URLs', () => {
+    assert.throws(() => loadUrlFile('missing.txt', folder), /URL file not found/);
+    assert.throws(() => loadUrlFile(write('broken.json', '[/a'), folder), /Invalid JSON/);
+    assert.throws(() => loadUrlFile(write('object.json', '{ "pages": [] }'), folder), /must contain an array/);
+    assert.throws(() => loadUrlFile(write('relative.txt', 'landing\n'), folder), /Invalid URL/);
+  });
+});
+
+describe('validateExtraUrl', () => {
+  it('accepts full URLs and absolute paths', () => {
+    assert.equal(validateExtraUrl('https://example.com/a'), true);
+    assert.equal(validateExtraUrl({ url: '/a' }), true);
+  });
+
+  it('rejects relative paths and other values', () => {
+    assert.match(validateExtraUrl('a/b') as string, /Expected a full URL/);
+    assert.match(validateExtraUrl({ title: 'No URL' }) as string, /Expected a full URL/);
+    assert.match(validateExtraUrl(null) as string, /Expected a full URL/);
+  });
+});
+
+describe('resolveExtraUrls', () => {
+  it('resolves paths against the site URL, keeping its subdirectory', () => {
+    const [url] = resolveExtraUrls(['/landing'], 'example.com/blog/');
+    assert.equal(url.url, 'https://example.com/blog/landing');
+    assert.equal(url.postType, 'custom');
+    assert.equal(url.title, '/blog/landing');
+  });
+
+  it('uses the configured title and group', () => {
+    const [url] = resolveExtraUrls([{ url: 'https://example.com/contact', title: 'Contact', group: 'forms' }], 'https://example.com');
+    assert.equal(url.title, 'Contact');
+    assert.equal(url.postType, 'forms');
+    assert.equal(url.slug, 'contact');
+  });
+
+  it('gives nested paths distinct slugs', () => {
+    const slugs = resolveExtraUrls(['/foo/bar', '/foo-bar', '/', '/search?s=shoes'], 'https://example.com').map(url => url.slug);
+    assert.equal(slugs[1], 'foo-bar');
+    assert.equal(slugs[2], 'homepage');
+    assert.match(slugs[0], /^foo-bar-[0-9a-f]{6}$/);
+    assert.match(slugs[3], /^search-s=shoes-[0-9a-f]{6}$/);
+    assert.equal(new Set(slugs).size, slugs.length);
+  });
+});
+
+describe('excludeUrls', () => {
+  const urls = ['/shop/shoes', '/blog/hello', '/?replytocom=5'].map((urlPath): UrlToScreenshot => ({
+    url: `https://example.com${urlPath}`,
+    slug: urlPath,
+    postType: 'page',
+    title: urlPath,
+  }));
+
+  it('keeps everything without patterns', () => {
+    assert.equal(excludeUrls(urls).length, 3);
+  });
+
+  it('drops URLs matching globs and regular expressions', () => {
+    const kept = excludeUrls(urls, ['/shop/**', 'regex:[?&]replytocom=']);
+    assert.deepEqual(kept.map(url => url.slug), ['/blog/hello']);
+  });
+});
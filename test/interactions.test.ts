@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InteractionRule } from '../src/types';
+import { describeStep, resolveInteractions } from '../src/interactions';
+
+const rules: InteractionRule[] = [
+  { steps: [{ action: 'hover', selector: '.menu-item-has-children', screenshot: 'menu-open' }] },
+  { postType: 'product', steps: [{ action: 'click', selector: '#tab-title-reviews' }] },
+  { url: '/contact/', steps: [{ action: 'fill', selector: 'input[type=email]', value: 'invalid' }] },
+];
+
+describe('resolveInteractions', () => {
+  it('collects the steps of every matching rule in order', () => {
+    const steps = resolveInteractions(rules, { url: 'https://example.com/contact/', postType: 'page' });
+    assert.deepEqual(steps.map(step => step.action), ['hover', 'fill']);
+  });
+
+  it('matches rules by post type', () => {
+    const steps = resolveInteractions(rules, { url: 'https://example.com/product/shirt/', postType: 'product' });
+    assert.deepEqual(steps.map(step => step.action), ['hover', 'click']);
+  });
+
+  it('returns no steps without rules', () => {
+    assert.deepEqual(resolveInteractions(undefined, { url: 'https://example.com/', postType: 'homepage' }), []);
+  });
+});
+
+describe('describeStep', () => {
+  it('lists the action, selector and value', () => {
+    assert.equal(describeStep({ action: 'fill', selector: 'input[type=email]', value: 'invalid' }), 'fill input[type=email] invalid');
+    assert.equal(describeStep({ action: 'press', value: 'Escape' }), 'press Escape');
+  });
+});
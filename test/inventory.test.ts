@@ -0,0 +1,80 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { InventoryItem, SiteInventory } from '../src/types';
+import { compareInventories, describeInventory, fetchCoreVersion } from '../src/inventory';
+
+/**
+ * Inventory with the given core version, plugins and themes
+ */
+function inventory(coreVersion?: string, plugins?: InventoryItem[], themes?: InventoryItem[]): SiteInventory {
+  return { capturedAt: '2024-05-01T10:00:00.000Z', coreVersion, plugins, themes };
+}
+
+const akismet: InventoryItem = { slug: 'akismet/akismet', name: 'Akismet', version: '5.3', active: true };
+const hello: InventoryItem = { slug: 'hello', name: 'Hello Dolly', version: '1.7.2', active: false };
+
+describe('compareInventories', () => {
+  it('lists core and plugin updates, installs, removals and activations', () => {
+    const changes = compareInventories(
+      inventory('6.4.3', [akismet, hello]),
+      inventory('6.5', [{ ...akismet, version: '5.3.1', active: false }, { slug: 'wpforms', name: 'WPForms', version: '1.8', active: true }])
+    );
+    assert.deepEqual(changes, [
+      { component: 'core', name: 'WordPress', kind: 'updated', from: '6.4.3', to: '6.5' },
+      { component: 'plugin', name: 'Akismet', kind: 'updated', from: '5.3', to: '5.3.1' },
+      { component: 'plugin', name: 'Akismet', kind: 'deactivated' },
+      { component: 'plugin', name: 'WPForms', kind: 'installed', to: '1.8' },
+      { component: 'plugin', name: 'Hello Dolly', kind: 'removed', from: '1.7.2' },
+    ]);
+  });
+
+  it('skips parts missing in either phase', () => {
+    assert.deepEqual(compareInventories(inventory(undefined, [akismet]), inventory('6.5', undefined, [])), []);
+  });
+});
+
+describe('describeInventory', () => {
+  it('summarizes versions and counts', () => {
+    assert.equal(describeInventory(inventory('6.5', [akismet, hello], [])), 'WordPress 6.5, 2 plugins (1 active), 0 themes');
+    assert.equal(describeInventory(inventory()), 'WordPress version hidden');
+  });
+});
+
+describe('fetchCoreVersion', () => {
+  let server: http.Server;
+  let base: string;
+  const files: Record<string, string> = {};
+
+  before(async () => {
+    server = http.createServer((request, response) => {
+      const body = files[request.url ?? ''];
+      response.statusCode = body === undefined ? 404 : 200;
+      response.end(body ?? '');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    files['/indexed/wp-json/?_fields=version'] = '{"version":"6.5.2"}';
+    files['/indexed/'] = '<meta name="generator" content="WordPress 6.5" />';
+    files['/meta/wp-json/?_fields=version'] = '{}';
+    files['/meta/'] = '<meta name="generator" content="WordPress 6.4.3" />';
+    files['/feed/'] = '<html></html>';
+    files['/feed/?feed=rss2'] = '<rss><generator>https://wordpress.org/?v=6.3.1</generator></rss>';
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('prefers the version of the REST API index', async () => {
+    assert.equal(await fetchCoreVersion(`${base}/indexed`, `${base}/indexed/wp-json/`), '6.5.2');
+  });
+
+  it('falls back to the generator meta tag, then the feed', async () => {
+    assert.equal(await fetchCoreVersion(`${base}/meta`, `${base}/meta/wp-json/`), '6.4.3');
+    assert.equal(await fetchCoreVersion(`${base}/feed`), '6.3.1');
+    assert.equal(await fetchCoreVersion(`${base}/hidden`), undefined);
+  });
+});
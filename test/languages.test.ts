@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { languageCode, parseAlternates } from '../src/languages';
+
+describe('languageCode', () => {
+  it('reduces hreflang values to the language', () => {
+    assert.equal(languageCode('de-DE'), 'de');
+    assert.equal(languageCode('pt_BR'), 'pt');
+    assert.equal(languageCode('EN'), 'en');
+  });
+
+  it('ignores x-default', () => {
+    assert.equal(languageCode('x-default'), undefined);
+  });
+});
+
+describe('parseAlternates', () => {
+  it('reads hreflang alternates with one URL per language', () => {
+    const html = `
+      <link rel="alternate" hreflang="en-US" href="https://example.com/about/" />
+      <link rel='alternate' hreflang='de-DE' href='/de/ueber-uns/' />
+      <link rel="alternate" hreflang="de-AT" href="https://example.com/at/ueber-uns/" />
+      <link rel="alternate" hreflang="x-default" href="https://example.com/about/" />`;
+    assert.deepEqual(parseAlternates(html, 'https://example.com/about/'), [
+      { language: 'en', url: 'https://example.com/about/' },
+      { language: 'de', url: 'https://example.com/de/ueber-uns/' },
+    ]);
+  });
+
+  it('decodes entities in query strings', () => {
+    const html = '<link hreflang="fr" href="https://example.com/?page_id=2&amp;lang=fr" rel="alternate">';
+    assert.deepEqual(parseAlternates(html, 'https://example.com/?page_id=2'), [
+      { language: 'fr', url: 'https://example.com/?page_id=2&lang=fr' },
+    ]);
+  });
+
+  it('skips other links and tags without hreflang', () => {
+    const html = `
+      <link rel="alternate" type="application/rss+xml" href="https://example.com/feed/" />
+      <link rel="stylesheet" hreflang="en" href="/style.css" />`;
+    assert.deepEqual(parseAlternates(html, 'https://example.com/'), []);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectConfig } from '../src/types';
+import { findProjectFolders, loadManifest, manifestPath, MANIFEST_VERSION, saveManifest } from '../src/manifest';
+
+/**
+ * Project state after a before phase
+ */
+function project(projectFolder: string): ProjectConfig {
+  return {
+    siteUrl: 'https://example.com',
+    projectFolder,
+    cookieConfig: { mode: 'auto' },
+    viewports: [{ name: 'desktop', width: 1920, height: 1080 }],
+    browsers: ['chromium'],
+    startTime: new Date('2024-05-01T10:00:00Z'),
+    urls: [{ url: 'https://example.com', slug: 'homepage', postType: 'homepage', title: 'Homepage' }],
+    beforeScreenshots: [{
+      url: 'https://example.com',
+      slug: 'homepage',
+      postType: 'homepage',
+      title: 'Homepage',
+      browser: 'chromium',
+      screenshots: { desktop: 'before/chromium/homepage-homepage-desktop.png' },
+    }],
+    afterScreenshots: [],
+  };
+}
+
+describe('manifest', () => {
+  let folder: string;
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'pixelpolice-manifest-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  it('saves dates as ISO strings with the format version', () => {
+    saveManifest(project(folder));
+    const manifest = JSON.parse(fs.readFileSync(manifestPath(folder), 'utf-8'));
+    assert.equal(manifest.version, MANIFEST_VERSION);
+    assert.equal(manifest.startTime, '2024-05-01T10:00:00.000Z');
+    assert.equal(manifest.projectFolder, undefined);
+  });
+
+  it('loads what was saved, with the folder it was loaded from', () => {
+    const config = { ...project(folder), endTime: new Date('2024-05-01T10:05:00Z') };
+    saveManifest(config);
+
+    const moved = fs.mkdtempSync(path.join(os.tmpdir(), 'pixelpolice-moved-'));
+    try {
+      fs.copyFileSync(manifestPath(folder), manifestPath(moved));
+      assert.deepEqual(loadManifest(moved), { ...config, projectFolder: moved });
+    } finally {
+      fs.rmSync(moved, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects folders without a manifest and other format versions', () => {
+    assert.throws(() => loadManifest(folder), /No run.json found/);
+
+    fs.writeFileSync(manifestPath(folder), JSON.stringify({ version: MANIFEST_VERSION + 1 }));
+    assert.throws(() => loadManifest(folder), /Unsupported run.json version/);
+  });
+
+  it('finds project folders with a manifest', () => {
+    const project1 = path.join(folder, 'example-com-1');
+    fs.mkdirSync(project1);
+    fs.mkdirSync(path.join(folder, 'empty'));
+    saveManifest(project(project1));
+
+    assert.deepEqual(findProjectFolders(folder), [project1]);
+    assert.deepEqual(findProjectFolders(path.join(folder, 'missing')), []);
+  });
+});
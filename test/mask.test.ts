@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MaskConfig } from '../src/types';
+import { resolveMask, scaleRegions } from '../src/mask';
+
+const config: MaskConfig = {
+  selectors: ['.ad', '.clock'],
+  regions: [
+    { x: 0, y: 0, width: 100, height: 50 },
+    { x: 0, y: 100, width: 100, height: 50, viewport: 'mobile' },
+  ],
+  rules: [
+    { url: '/shop/**', selectors: ['.ad', '.stock'], regions: [{ x: 10, y: 10, width: 20, height: 20 }] },
+    { url: '/blog/**', selectors: ['.comments'] },
+  ],
+};
+
+describe('resolveMask', () => {
+  it('returns nothing without a mask config', () => {
+    assert.deepEqual(resolveMask(undefined, 'https://example.com/', 'desktop'), { selectors: [], regions: [] });
+  });
+
+  it('adds matching rules to the site-wide targets without duplicate selectors', () => {
+    assert.deepEqual(resolveMask(config, 'https://example.com/shop/shirt/', 'desktop'), {
+      selectors: ['.ad', '.clock', '.stock'],
+      regions: [{ x: 0, y: 0, width: 100, height: 50 }, { x: 10, y: 10, width: 20, height: 20 }],
+    });
+  });
+
+  it('keeps regions of other viewports out', () => {
+    assert.deepEqual(resolveMask(config, 'https://example.com/', 'mobile').regions, [
+      { x: 0, y: 0, width: 100, height: 50 },
+      { x: 0, y: 100, width: 100, height: 50 },
+    ]);
+  });
+});
+
+describe('scaleRegions', () => {
+  it('scales regions to screenshot pixels', () => {
+    assert.deepEqual(scaleRegions([{ x: 1, y: 2, width: 3, height: 4 }], 2), [{ x: 2, y: 4, width: 6, height: 8 }]);
+  });
+});
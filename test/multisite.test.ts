@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findSite, siteLabel } from '../src/multisite';
+
+describe('siteLabel', () => {
+  it('combines host and path', () => {
+    assert.equal(siteLabel('https://example.com/de/'), 'example.com/de');
+    assert.equal(siteLabel('shop.example.com'), 'shop.example.com');
+  });
+});
+
+describe('findSite', () => {
+  const sites = ['https://example.com', 'https://example.com/de', 'https://shop.example.com'];
+
+  it('picks the site with the longest matching path', () => {
+    assert.equal(findSite('https://example.com/de/kontakt/', sites), 'https://example.com/de');
+    assert.equal(findSite('https://example.com/design/', sites), 'https://example.com');
+    assert.equal(findSite('https://shop.example.com/cart/', sites), 'https://shop.example.com');
+  });
+
+  it('returns undefined for URLs outside the network', () => {
+    assert.equal(findSite('https://other.example/', sites), undefined);
+  });
+});
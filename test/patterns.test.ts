@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { globToRegExp, matchesUrlPattern, validateUrlPattern } from '../src/patterns';
+
+describe('globToRegExp', () => {
+  it('matches * within one path segment and ** across segments', () => {
+    assert.ok(globToRegExp('/blog/*').test('/blog/post'));
+    assert.ok(!globToRegExp('/blog/*').test('/blog/2024/post'));
+    assert.ok(globToRegExp('/blog/**').test('/blog/2024/post'));
+    assert.ok(globToRegExp('/p?ge').test('/page'));
+  });
+
+  it('escapes regular expression characters', () => {
+    assert.ok(globToRegExp('/index.php?p=1').test('/index.php?p=1'));
+    assert.ok(!globToRegExp('/index.php').test('/indexXphp'));
+  });
+});
+
+describe('validateUrlPattern', () => {
+  it('accepts globs and compiling regex patterns', () => {
+    assert.equal(validateUrlPattern('/shop/**'), true);
+    assert.equal(validateUrlPattern('regex:^https://example\\.com/landing-\\d+'), true);
+  });
+
+  it('rejects empty globs and invalid regex patterns', () => {
+    assert.notEqual(validateUrlPattern(''), true);
+    assert.notEqual(validateUrlPattern('regex:(unclosed'), true);
+  });
+});
+
+describe('matchesUrlPattern', () => {
+  it('matches path globs against the path and query string', () => {
+    assert.ok(matchesUrlPattern('https://example.com/shop/shirt/', '/shop/**'));
+    assert.ok(matchesUrlPattern('https://example.com/?s=test', '/?s=*'));
+    assert.ok(!matchesUrlPattern('https://example.com/blog/shop/', '/shop/**'));
+  });
+
+  it('ignores trailing slashes and case', () => {
+    assert.ok(matchesUrlPattern('https://example.com/Contact/', '/contact'));
+    assert.ok(matchesUrlPattern('https://example.com/contact', '/contact/'));
+  });
+
+  it('matches other globs against the full URL', () => {
+    assert.ok(matchesUrlPattern('https://shop.example.com/cart/', 'https://shop.example.com/**'));
+    assert.ok(!matchesUrlPattern('https://example.com/cart/', 'https://shop.example.com/**'));
+  });
+
+  it('searches regex patterns in the full URL', () => {
+    assert.ok(matchesUrlPattern('https://example.com/?replytocom=5', 'regex:[?&]replytocom='));
+    assert.ok(!matchesUrlPattern('https://example.com/', 'regex:[?&]replytocom='));
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WPPost } from '../src/types';
+import { createRandom, resolveSampling, samplePosts, strategyFor } from '../src/sampling';
+
+/**
+ * Minimal post with an ID and optional template
+ */
+function post(id: number, template?: string): WPPost {
+  return { id, slug: `post-${id}`, link: `https://example.com/?p=${id}`, title: { rendered: `Post ${id}` }, type: 'post', template };
+}
+
+const posts = [5, 3, 9, 1, 7, 2].map(id => post(id));
+
+describe('resolveSampling', () => {
+  it('defaults to the random strategy and generates a seed', () => {
+    const sampling = resolveSampling();
+    assert.equal(sampling.strategy, 'random');
+    assert.ok(Number.isInteger(sampling.seed));
+  });
+
+  it('keeps a configured seed and strategy', () => {
+    assert.deepEqual(resolveSampling({ strategy: 'recent', seed: 42 }), { strategy: 'recent', seed: 42 });
+  });
+});
+
+describe('strategyFor', () => {
+  it('prefers the post type strategy over the default', () => {
+    const config = { strategy: 'recent' as const, postTypes: { page: 'all' as const } };
+    assert.equal(strategyFor(config, 'page'), 'all');
+    assert.equal(strategyFor(config, 'post'), 'recent');
+    assert.equal(strategyFor({}, 'post'), 'random');
+  });
+});
+
+describe('createRandom', () => {
+  it('returns the same sequence for the same seed', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const values = Array.from({ length: 5 }, () => a());
+    assert.deepEqual(values, Array.from({ length: 5 }, () => b()));
+    assert.ok(values.every(value => value >= 0 && value < 1));
+  });
+});
+
+describe('samplePosts', () => {
+  it('takes the first posts for recent and oldest', () => {
+    assert.deepEqual(samplePosts(posts, 'recent', 2, 1, 'post').map(p => p.id), [5, 3]);
+    assert.deepEqual(samplePosts(posts, 'oldest', 2, 1, 'post').map(p => p.id), [5, 3]);
+  });
+
+  it('returns every post for all', () => {
+    assert.equal(samplePosts(posts, 'all', 2, 1, 'post').length, posts.length);
+  });
+
+  it('picks a reproducible random sample independent of API order', () => {
+    const sample = samplePosts(posts, 'random', 3, 42, 'post').map(p => p.id);
+    const reversed = samplePosts([...posts].reverse(), 'random', 3, 42, 'post').map(p => p.id);
+    assert.equal(sample.length, 3);
+    assert.equal(new Set(sample).size, 3);
+    assert.deepEqual(reversed, sample);
+  });
+
+  it('keeps the first post of every template for per-template', () => {
+    const templated = [post(1, 'wide'), post(2, ''), post(3, 'wide'), post(4)];
+    assert.deepEqual(samplePosts(templated, 'per-template', 1, 1, 'page').map(p => p.id), [1, 2]);
+  });
+});
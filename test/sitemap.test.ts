@@ -0,0 +1,77 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { buildSitemapUrlList, discoverSitemaps, fetchSitemapEntries, postTypeFromSitemap } from '../src/sitemap';
+
+describe('postTypeFromSitemap', () => {
+  it('reads post types from core sitemaps', () => {
+    assert.equal(postTypeFromSitemap('https://example.com/wp-sitemap-posts-page-1.xml'), 'page');
+    assert.equal(postTypeFromSitemap('https://example.com/wp-sitemap-posts-event-item-2.xml'), 'event-item');
+    assert.equal(postTypeFromSitemap('https://example.com/wp-sitemap-taxonomies-category-1.xml'), 'category');
+    assert.equal(postTypeFromSitemap('https://example.com/wp-sitemap-users-1.xml'), 'author');
+  });
+
+  it('reads post types from Yoast and Rank Math sitemaps', () => {
+    assert.equal(postTypeFromSitemap('https://example.com/product-sitemap2.xml'), 'product');
+    assert.equal(postTypeFromSitemap('https://example.com/post_sitemap.xml.gz'), 'post');
+  });
+
+  it('falls back to "sitemap"', () => {
+    assert.equal(postTypeFromSitemap('https://example.com/sitemap.xml'), 'sitemap');
+    assert.equal(postTypeFromSitemap('not a url'), 'sitemap');
+  });
+});
+
+describe('sitemap fetching', () => {
+  let server: http.Server;
+  let base: string;
+  const files: Record<string, string> = {};
+
+  before(async () => {
+    server = http.createServer((request, response) => {
+      const body = files[request.url ?? ''];
+      response.statusCode = body === undefined ? 404 : 200;
+      response.end(body ?? '');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    files['/robots.txt'] = `User-agent: *\nSitemap: ${base}/wp-sitemap.xml\n`;
+    files['/wp-sitemap.xml'] = `<?xml version="1.0"?>
+      <sitemapindex>
+        <sitemap><loc>${base}/wp-sitemap-posts-page-1.xml</loc></sitemap>
+        <sitemap><loc>${base}/wp-sitemap.xml</loc></sitemap>
+      </sitemapindex>`;
+    files['/wp-sitemap-posts-page-1.xml'] = `<?xml version="1.0"?>
+      <urlset>
+        <url><loc>${base}/</loc></url>
+        <url><loc>${base}/foo/bar/</loc><lastmod>2024-02-01</lastmod></url>
+        <url><loc><![CDATA[${base}/foo-bar/?a=1&amp;b=2]]></loc><lastmod>2024-01-01</lastmod></url>
+      </urlset>`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('finds sitemaps listed in robots.txt', async () => {
+    assert.deepEqual(await discoverSitemaps(base), [`${base}/wp-sitemap.xml`]);
+  });
+
+  it('follows sitemap indexes once and decodes entries', async () => {
+    assert.deepEqual(await fetchSitemapEntries(`${base}/wp-sitemap.xml`), [
+      { url: `${base}/`, postType: 'page', lastmod: undefined },
+      { url: `${base}/foo/bar/`, postType: 'page', lastmod: '2024-02-01' },
+      { url: `${base}/foo-bar/?a=1&b=2`, postType: 'page', lastmod: '2024-01-01' },
+    ]);
+  });
+
+  it('builds the URL list with the homepage first and distinct slugs', async () => {
+    const urls = await buildSitemapUrlList(base, { postsPerType: 5, sampling: { strategy: 'recent', seed: 1 } });
+    assert.deepEqual(urls.map(url => url.postType), ['homepage', 'page', 'page']);
+    assert.equal(urls[1].url, `${base}/foo/bar/`);
+    assert.match(urls[1].slug, /^foo-bar-[0-9a-f]{6}$/);
+    assert.equal(urls[2].slug, 'foo-bar');
+  });
+});
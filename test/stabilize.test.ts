@@ -0,0 +1,15 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_STABILIZE, resolveStabilize } from '../src/stabilize';
+
+describe('resolveStabilize', () => {
+  it('is disabled unless set', () => {
+    assert.equal(resolveStabilize(undefined), undefined);
+    assert.equal(resolveStabilize(false), undefined);
+  });
+
+  it('fills in the defaults', () => {
+    assert.deepEqual(resolveStabilize(true), DEFAULT_STABILIZE);
+    assert.deepEqual(resolveStabilize({ seed: 7 }), { ...DEFAULT_STABILIZE, seed: 7 });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ComparisonResult, DiffResult } from '../src/types';
+import { classifyComparison, classifyDiff, resolveThresholds, worstStatus } from '../src/thresholds';
+
+/**
+ * Diff of a 100x100 image with the given number of changed pixels
+ */
+function diff(diffPixels: number, extra: Partial<DiffResult> = {}): DiffResult {
+  return {
+    diffPixels,
+    totalPixels: 10000,
+    diffPercentage: diffPixels / 100,
+    diffPath: 'diff.png',
+    dimensionsDiffer: false,
+    beforeDimensions: { width: 100, height: 100 },
+    afterDimensions: { width: 100, height: 100 },
+    ...extra,
+  };
+}
+
+/**
+ * Comparison of https://example.com/shop/ with the given diffs
+ */
+function comparison(diffs: Record<string, DiffResult>, failedCaptures?: string[]): ComparisonResult {
+  return {
+    url: 'https://example.com/shop/',
+    slug: 'shop',
+    postType: 'page',
+    title: 'Shop',
+    browser: 'chromium',
+    before: {},
+    after: {},
+    diff: diffs,
+    failedCaptures,
+  };
+}
+
+describe('worstStatus', () => {
+  it('returns the more severe status', () => {
+    assert.equal(worstStatus('pass', 'warn'), 'warn');
+    assert.equal(worstStatus('fail', 'warn'), 'fail');
+    assert.equal(worstStatus('pass', 'pass'), 'pass');
+  });
+});
+
+describe('resolveThresholds', () => {
+  const page = { url: 'https://example.com/shop/', postType: 'page', browser: 'chromium' as const };
+
+  it('starts from the defaults', () => {
+    assert.deepEqual(resolveThresholds(undefined, page, 'desktop'), {
+      warnPixels: 0,
+      dimensionChange: 'warn',
+      captureFailure: 'fail',
+    });
+  });
+
+  it('applies matching rules in order', () => {
+    const limits = resolveThresholds({
+      failPercentage: 5,
+      rules: [
+        { postType: 'page', failPercentage: 10 },
+        { viewport: 'mobile', failPercentage: 20 },
+        { url: '/shop', warnPixels: 100 },
+        { browser: 'webkit', failPercentage: 30 },
+      ],
+    }, page, 'desktop');
+    assert.equal(limits.failPercentage, 10);
+    assert.equal(limits.warnPixels, 100);
+  });
+
+  it('matches viewport rules for interaction screenshots of that viewport', () => {
+    const config = { rules: [{ viewport: 'mobile', failPercentage: 20 }] };
+    assert.equal(resolveThresholds(config, page, 'mobile:menu-open').failPercentage, 20);
+  });
+});
+
+describe('classifyDiff', () => {
+  it('passes unchanged screenshots and warns on any change by default', () => {
+    const limits = resolveThresholds(undefined, { url: '', postType: 'page', browser: 'chromium' }, 'desktop');
+    assert.equal(classifyDiff(diff(0), limits), 'pass');
+    assert.equal(classifyDiff(diff(1), limits), 'warn');
+  });
+
+  it('fails above the fail limits', () => {
+    assert.equal(classifyDiff(diff(600), { warnPercentage: 1, failPercentage: 5 }), 'fail');
+    assert.equal(classifyDiff(diff(300), { warnPercentage: 1, failPercentage: 5 }), 'warn');
+    assert.equal(classifyDiff(diff(300), { failPixels: 200 }), 'fail');
+  });
+
+  it('applies the dimension change status', () => {
+    assert.equal(classifyDiff(diff(0, { dimensionsDiffer: true }), { dimensionChange: 'fail' }), 'fail');
+  });
+
+  it('uses the shift-adjusted numbers when present', () => {
+    const shifted = diff(5000, {
+      shift: { bands: [], shiftedRows: 50, adjustedDiffPixels: 0, adjustedDiffPercentage: 0 },
+    });
+    assert.equal(classifyDiff(shifted, { warnPixels: 0, failPercentage: 5 }), 'pass');
+  });
+});
+
+describe('classifyComparison', () => {
+  it('sets the status of every diff and the worst on the comparison', () => {
+    const result = comparison({ desktop: diff(0), mobile: diff(600) });
+    assert.equal(classifyComparison(result, { failPercentage: 5 }), 'fail');
+    assert.equal(result.diff.desktop.status, 'pass');
+    assert.equal(result.diff.mobile.status, 'fail');
+    assert.equal(result.status, 'fail');
+  });
+
+  it('counts failed captures with the captureFailure status', () => {
+    assert.equal(classifyComparison(comparison({ desktop: diff(0) }, ['mobile']), undefined), 'fail');
+    assert.equal(classifyComparison(comparison({ desktop: diff(0) }, ['mobile']), { captureFailure: 'warn' }), 'warn');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { baseViewport, captureKey, captureKeys, resolveViewports, viewportLabel, viewportSize } from '../src/viewports';
+
+describe('resolveViewports', () => {
+  it('defaults to desktop and mobile', () => {
+    assert.deepEqual(resolveViewports().map(viewport => viewport.name), ['desktop', 'mobile']);
+  });
+
+  it('resolves presets and custom definitions', () => {
+    assert.deepEqual(resolveViewports(['laptop', { name: 'wide', width: 2560, height: 1440 }]), [
+      { name: 'laptop', width: 1366, height: 768 },
+      { name: 'wide', width: 2560, height: 1440 },
+    ]);
+  });
+
+  it('lets a custom definition extend the preset of the same name', () => {
+    assert.deepEqual(resolveViewports([{ name: 'tablet', width: 820, height: 1180 }])[0], {
+      name: 'tablet',
+      width: 820,
+      height: 1180,
+      deviceScaleFactor: 2,
+      hasTouch: true,
+      isMobile: true,
+    });
+  });
+
+  it('rejects unknown preset names', () => {
+    assert.throws(() => resolveViewports(['huge']), /Unknown viewport "huge"/);
+  });
+});
+
+describe('capture keys', () => {
+  it('combine a viewport with an interaction screenshot name', () => {
+    assert.equal(captureKey('desktop', 'menu-open'), 'desktop:menu-open');
+    assert.equal(baseViewport('desktop:menu-open'), 'desktop');
+    assert.equal(baseViewport('desktop'), 'desktop');
+  });
+
+  it('are listed with the viewport first, from all records', () => {
+    assert.deepEqual(
+      captureKeys('desktop', { desktop: 1, 'desktop:menu-open': 1, 'mobile:menu-open': 1 }, { 'desktop:reviews': 1 }, undefined),
+      ['desktop', 'desktop:menu-open', 'desktop:reviews']
+    );
+  });
+});
+
+describe('viewportLabel', () => {
+  it('title-cases viewport names', () => {
+    assert.equal(viewportLabel('desktop'), 'Desktop');
+    assert.equal(viewportLabel('mobile-landscape'), 'Mobile Landscape');
+  });
+
+  it('adds the interaction screenshot name', () => {
+    assert.equal(viewportLabel('desktop:menu-open'), 'Desktop · menu-open');
+  });
+});
+
+describe('viewportSize', () => {
+  it('adds the scale factor if it is not 1', () => {
+    assert.equal(viewportSize({ name: 'desktop', width: 1920, height: 1080 }), '1920x1080');
+    assert.equal(viewportSize({ name: 'phone', width: 390, height: 844, deviceScaleFactor: 3 }), '390x844 @3x');
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseStorePages } from '../src/woocommerce';
+
+describe('parseStorePages', () => {
+  it('reads cart and checkout from the wcSettings of block themes', () => {
+    const settings = encodeURIComponent(JSON.stringify({
+      currency: { code: 'EUR' },
+      storePages: {
+        cart: { id: 7, permalink: 'https://example.com/warenkorb/' },
+        checkout: { id: 8, permalink: 'https://example.com/kasse/' },
+      },
+    }));
+    const html = `<script>var wcSettings = wcSettings || JSON.parse( decodeURIComponent( '${settings}' ) );</script>`;
+    assert.deepEqual(parseStorePages(html), {
+      cartUrl: 'https://example.com/warenkorb/',
+      checkoutUrl: 'https://example.com/kasse/',
+    });
+  });
+
+  it('reads the cart URL from wc_add_to_cart_params of classic themes', () => {
+    const html = '<script>var wc_add_to_cart_params = {"ajax_url":"\\/wp-admin\\/admin-ajax.php","cart_url":"https:\\/\\/example.com\\/cart\\/"};</script>';
+    assert.deepEqual(parseStorePages(html), { cartUrl: 'https://example.com/cart/' });
+  });
+
+  it('finds nothing on pages without store scripts', () => {
+    assert.deepEqual(parseStorePages('<html></html>'), { cartUrl: undefined });
+  });
+});
@@ -0,0 +1,65 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { buildApiUrl, discoverApiRoot } from '../src/wordpress-api';
+
+describe('buildApiUrl', () => {
+  it('appends routes to /wp-json/ roots', () => {
+    assert.equal(
+      buildApiUrl('https://example.com/wp-json/', '/wp/v2/posts', { per_page: 5 }),
+      'https://example.com/wp-json/wp/v2/posts?per_page=5'
+    );
+  });
+
+  it('appends routes to the rest_route parameter', () => {
+    assert.equal(
+      buildApiUrl('https://example.com/?rest_route=/', 'wp/v2/types'),
+      'https://example.com/?rest_route=%2Fwp%2Fv2%2Ftypes'
+    );
+  });
+});
+
+describe('discoverApiRoot', () => {
+  let server: http.Server;
+  let base: string;
+
+  before(async () => {
+    server = http.createServer((request, response) => {
+      const url = request.url ?? '';
+      if (url === '/linked/') {
+        response.setHeader('Link', `<${base}/linked/api/>; rel="https://api.w.org/"`);
+        response.end('<html></html>');
+      } else if (url === '/tagged/') {
+        response.end(`<link rel='https://api.w.org/' href='${base}/tagged/?rest_route=/&amp;lang=de' />`);
+      } else if (['/linked/api/', '/tagged/?rest_route=/&lang=de', '/plain/?rest_route=/'].includes(url)) {
+        response.end('{}');
+      } else {
+        response.statusCode = 404;
+        response.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('uses the root advertised in the Link header', async () => {
+    assert.equal(await discoverApiRoot(`${base}/linked`), `${base}/linked/api/`);
+  });
+
+  it('uses the root advertised in a <link> tag', async () => {
+    assert.equal(await discoverApiRoot(`${base}/tagged/`), `${base}/tagged/?rest_route=/&lang=de`);
+  });
+
+  it('falls back to ?rest_route=/ when /wp-json/ is missing', async () => {
+    assert.equal(await discoverApiRoot(`${base}/plain`), `${base}/plain/?rest_route=/`);
+  });
+
+  it('returns undefined without a REST API', async () => {
+    assert.equal(await discoverApiRoot(`${base}/static`), undefined);
+  });
+});